@@ -0,0 +1,120 @@
+/**
+ * API Key Routes
+ * Manage the calling tenant's API keys (admin scope). A key is shown once, when created;
+ * only its hash and prefix are stored.
+ */
+import { Router } from "express";
+import { prisma, type ApiKey } from "@repo/db";
+import {
+  ApiKeyIdParamSchema,
+  ApiKeyScopeSchema,
+  CreateApiKeySchema,
+  type ApiKeyResponse,
+  type CreateApiKeyResponse,
+} from "@repo/types";
+import { generateApiKey, tenantOf } from "./auth.ts";
+
+export const apiKeysRouter = Router();
+
+/**
+ * Convert an API key row to its API representation
+ */
+function toApiKeyResponse(apiKey: ApiKey): ApiKeyResponse {
+  return {
+    id: apiKey.id,
+    tenantId: apiKey.tenantId,
+    name: apiKey.name,
+    prefix: apiKey.prefix,
+    scopes: apiKey.scopes.flatMap((scope) => {
+      const parsed = ApiKeyScopeSchema.safeParse(scope);
+      return parsed.success ? [parsed.data] : [];
+    }),
+    createdAt: apiKey.createdAt.toISOString(),
+    lastUsedAt: apiKey.lastUsedAt?.toISOString() ?? null,
+    revokedAt: apiKey.revokedAt?.toISOString() ?? null,
+  };
+}
+
+/**
+ * POST /api-keys - Create an API key for the caller's tenant
+ */
+apiKeysRouter.post("/", async (req, res) => {
+  const result = CreateApiKeySchema.safeParse(req.body);
+
+  if (!result.success) {
+    res.status(400).json({
+      error: "Validation failed",
+      message: "Invalid request body",
+      details: result.error.format(),
+    });
+    return;
+  }
+
+  const tenantId = tenantOf(res);
+  const { key, keyHash, prefix } = generateApiKey();
+
+  const apiKey = await prisma.apiKey.create({
+    data: {
+      tenantId,
+      name: result.data.name,
+      prefix,
+      keyHash,
+      scopes: [...new Set(result.data.scopes)],
+    },
+  });
+
+  console.log(`[API] API key ${prefix}… created for ${tenantId}`);
+
+  const response: CreateApiKeyResponse = { ...toApiKeyResponse(apiKey), key };
+  res.status(201).json(response);
+});
+
+/**
+ * GET /api-keys - List the caller's tenant's API keys (including revoked ones)
+ */
+apiKeysRouter.get("/", async (_req, res) => {
+  const apiKeys = await prisma.apiKey.findMany({
+    where: { tenantId: tenantOf(res) },
+    orderBy: { createdAt: "desc" },
+  });
+
+  res.json({ apiKeys: apiKeys.map(toApiKeyResponse) });
+});
+
+/**
+ * POST /api-keys/:id/revoke - Revoke an API key; requests with it are rejected from now on
+ */
+apiKeysRouter.post("/:id/revoke", async (req, res) => {
+  const params = ApiKeyIdParamSchema.safeParse(req.params);
+
+  if (!params.success) {
+    res.status(400).json({
+      error: "Validation failed",
+      message: "Invalid API key id",
+      details: params.error.format(),
+    });
+    return;
+  }
+
+  const apiKey = await prisma.apiKey.findFirst({
+    where: { id: params.data.id, tenantId: tenantOf(res) },
+  });
+
+  if (!apiKey) {
+    res.status(404).json({ error: "Not found", message: "API key not found" });
+    return;
+  }
+
+  if (apiKey.revokedAt) {
+    res.status(409).json({ error: "Conflict", message: "API key is already revoked" });
+    return;
+  }
+
+  const revoked = await prisma.apiKey.update({
+    where: { id: apiKey.id },
+    data: { revokedAt: new Date() },
+  });
+
+  console.log(`[API] API key ${apiKey.prefix}… revoked for ${apiKey.tenantId}`);
+  res.json(toApiKeyResponse(revoked));
+});
@@ -0,0 +1,253 @@
+/**
+ * API Key Authentication
+ * Requests send `Authorization: Bearer <key>`. The key decides the tenant: a request may only
+ * read or create that tenant's jobs, and only what the key's scopes allow. Keys are stored as
+ * SHA-256 hashes, so a leaked database doesn't leak usable keys.
+ *
+ * WebSocket clients authenticate with an API key or a short-lived WebSocket token: an
+ * HS256-signed JWT minted by POST /ws-tokens, so browsers needn't hold a long-lived key.
+ *
+ * Settings that decide how tenants share the queue (/tenants) take the operator key
+ * (OPERATOR_KEY) instead: no tenant's key, admin or not, may change them.
+ */
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import type { Request, RequestHandler, Response } from "express";
+import jwt from "jsonwebtoken";
+import { prisma } from "@repo/db";
+import { ApiKeyScope } from "@repo/types";
+
+const KEY_PREFIX = "pk_";
+const PREFIX_LENGTH = 10; // Characters of the key kept in plain text (e.g. "pk_Xb3f9aQ")
+const LAST_USED_RESOLUTION_MS = 60_000; // lastUsedAt is written at most once a minute per key
+const WS_TOKEN_TTL_MS = 5 * 60_000; // WebSocket tokens are only needed for the handshake
+
+// Shared by all API replicas so a token minted by one is accepted by the others
+if (!process.env.WS_TOKEN_SECRET && process.env.NODE_ENV === "production") {
+  throw new Error("WS_TOKEN_SECRET environment variable is not set");
+}
+const WS_TOKEN_SECRET = process.env.WS_TOKEN_SECRET || randomBytes(32).toString("hex");
+if (!process.env.WS_TOKEN_SECRET) {
+  console.warn("[Auth] WS_TOKEN_SECRET is not set; WebSocket tokens only work on this instance");
+}
+
+// Unset: the operator routes are off
+const OPERATOR_KEY_HASH = process.env.OPERATOR_KEY
+  ? createHash("sha256").update(process.env.OPERATOR_KEY).digest()
+  : null;
+
+/**
+ * The API key a request was made with
+ */
+export interface ApiKeyAuth {
+  keyId: string;
+  tenantId: string;
+  scopes: ApiKeyScope[];
+}
+
+declare global {
+  namespace Express {
+    interface Locals {
+      auth?: ApiKeyAuth;
+    }
+  }
+}
+
+/**
+ * Generate a new API key with its hash and display prefix
+ */
+export function generateApiKey(): { key: string; keyHash: string; prefix: string } {
+  const key = `${KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+  return { key, keyHash: hashApiKey(key), prefix: key.slice(0, PREFIX_LENGTH) };
+}
+
+/**
+ * Hash an API key for storage and lookup
+ */
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+/**
+ * Read the key from `Authorization: Bearer <key>` (or `X-API-Key`)
+ */
+function readApiKey(req: Request): string | null {
+  const authorization = req.header("Authorization");
+  if (authorization?.startsWith("Bearer ")) {
+    return authorization.slice("Bearer ".length).trim() || null;
+  }
+  return req.header("X-API-Key")?.trim() || null;
+}
+
+/**
+ * Whether an API key may do what a scope allows
+ */
+export function hasScope(auth: ApiKeyAuth, scope: ApiKeyScope): boolean {
+  return auth.scopes.includes(scope) || auth.scopes.includes(ApiKeyScope.ADMIN);
+}
+
+/**
+ * The tenant of an authenticated request
+ */
+export function tenantOf(res: Response): string {
+  if (!res.locals.auth) {
+    throw new Error("Route is missing the authenticate middleware");
+  }
+  return res.locals.auth.tenantId;
+}
+
+/**
+ * Look up an API key; null if it is unknown or revoked
+ */
+export async function verifyApiKey(key: string): Promise<ApiKeyAuth | null> {
+  const apiKey = await prisma.apiKey.findUnique({ where: { keyHash: hashApiKey(key) } });
+  if (!apiKey || apiKey.revokedAt) return null;
+
+  if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    prisma.apiKey
+      .update({ where: { id: apiKey.id }, data: { lastUsedAt: new Date() } })
+      .catch((error) => console.error("[Auth] Failed to update lastUsedAt:", error));
+  }
+
+  return {
+    keyId: apiKey.id,
+    tenantId: apiKey.tenantId,
+    scopes: apiKey.scopes.filter((scope): scope is ApiKeyScope =>
+      Object.values(ApiKeyScope).includes(scope as ApiKeyScope)
+    ),
+  };
+}
+
+/**
+ * Mint a WebSocket token carrying an API key's tenant and scopes
+ */
+export function createWsToken(auth: ApiKeyAuth): { token: string; expiresAt: Date } {
+  const token = jwt.sign({ tenantId: auth.tenantId, scopes: auth.scopes }, WS_TOKEN_SECRET, {
+    algorithm: "HS256",
+    subject: auth.keyId,
+    expiresIn: WS_TOKEN_TTL_MS / 1000,
+  });
+  const { exp } = jwt.decode(token) as jwt.JwtPayload;
+  return { token, expiresAt: new Date(exp! * 1000) };
+}
+
+/**
+ * Check a WebSocket token's signature and expiry
+ */
+function verifyWsToken(token: string): ApiKeyAuth | null {
+  try {
+    const claims = jwt.verify(token, WS_TOKEN_SECRET, { algorithms: ["HS256"] });
+    if (typeof claims === "string" || !claims.sub) return null;
+    return { keyId: claims.sub, tenantId: claims.tenantId, scopes: claims.scopes };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Verify a WebSocket token or an API key
+ * A WebSocket token stops working once the key it was minted with is revoked.
+ */
+export async function verifyToken(token: string): Promise<ApiKeyAuth | null> {
+  if (token.startsWith(KEY_PREFIX)) return verifyApiKey(token);
+
+  const auth = verifyWsToken(token);
+  if (!auth) return null;
+
+  const apiKey = await prisma.apiKey.findUnique({
+    where: { id: auth.keyId },
+    select: { revokedAt: true },
+  });
+  return apiKey && !apiKey.revokedAt ? auth : null;
+}
+
+/**
+ * Authenticate the request's API key and pin the request to the key's tenant
+ * A `tenantId` in the body or query must match the key's tenant; a body without one gets it.
+ */
+export const authenticate: RequestHandler = async (req, res, next) => {
+  const key = readApiKey(req);
+
+  if (!key) {
+    res.status(401).json({
+      error: "Unauthorized",
+      message: "Missing API key (send Authorization: Bearer <key>)",
+    });
+    return;
+  }
+
+  const auth = await verifyApiKey(key);
+
+  if (!auth) {
+    res.status(401).json({ error: "Unauthorized", message: "Invalid or revoked API key" });
+    return;
+  }
+
+  const body =
+    req.body && typeof req.body === "object" && !Array.isArray(req.body)
+      ? (req.body as Record<string, unknown>)
+      : null;
+
+  for (const requested of [body?.tenantId, req.query.tenantId]) {
+    if (requested !== undefined && requested !== auth.tenantId) {
+      res.status(403).json({
+        error: "Forbidden",
+        message: "tenantId does not match the API key's tenant",
+      });
+      return;
+    }
+  }
+
+  if (body && body.tenantId === undefined) {
+    body.tenantId = auth.tenantId;
+  }
+
+  res.locals.auth = auth;
+  next();
+};
+
+/**
+ * Require a scope (after authenticate)
+ */
+export function requireScope(scope: ApiKeyScope): RequestHandler {
+  return (_req, res, next) => {
+    if (!res.locals.auth || !hasScope(res.locals.auth, scope)) {
+      res.status(403).json({
+        error: "Forbidden",
+        message: `API key lacks the ${scope} scope`,
+      });
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * Require jobs:read for reads (GET) and jobs:write for everything else
+ */
+export const requireJobScope: RequestHandler = (req, res, next) => {
+  const scope = req.method === "GET" ? ApiKeyScope.JOBS_READ : ApiKeyScope.JOBS_WRITE;
+  return requireScope(scope)(req, res, next);
+};
+
+/**
+ * Require the operator key rather than a tenant's API key
+ */
+export const requireOperator: RequestHandler = (req, res, next) => {
+  if (!OPERATOR_KEY_HASH) {
+    res.status(403).json({
+      error: "Forbidden",
+      message: "Operator routes are disabled (OPERATOR_KEY is not set)",
+    });
+    return;
+  }
+
+  // Compared as hashes, so lengths match and the comparison takes constant time
+  const key = readApiKey(req);
+  const keyHash = key ? createHash("sha256").update(key).digest() : null;
+
+  if (!keyHash || !timingSafeEqual(keyHash, OPERATOR_KEY_HASH)) {
+    res.status(401).json({ error: "Unauthorized", message: "Missing or invalid operator key" });
+    return;
+  }
+  next();
+};
@@ -0,0 +1,37 @@
+/**
+ * Create an API key from the command line (e.g. the first admin key of a new tenant)
+ *
+ *   bun run create-api-key.ts <tenantId> [name] [scopes]
+ *
+ * Creates the tenant if it doesn't exist. Scopes are comma-separated (default: admin).
+ * The key is printed once; only its hash is stored.
+ */
+import { prisma } from "@repo/db";
+import { ApiKeyScope, ApiKeyScopeSchema, TenantIdParamSchema } from "@repo/types";
+import { generateApiKey } from "./auth.ts";
+
+const [tenantArg, name = "Admin key", scopesArg = ApiKeyScope.ADMIN] = process.argv.slice(2);
+
+const tenant = TenantIdParamSchema.safeParse({ tenantId: tenantArg });
+const scopes = ApiKeyScopeSchema.array().min(1).safeParse(scopesArg.split(","));
+
+if (!tenant.success || !scopes.success) {
+  console.error("Usage: bun run create-api-key.ts <tenantId> [name] [scopes]");
+  console.error(`Scopes: ${Object.values(ApiKeyScope).join(", ")}`);
+  process.exit(1);
+}
+
+const { tenantId } = tenant.data;
+const { key, keyHash, prefix } = generateApiKey();
+
+await prisma.tenant.upsert({
+  where: { id: tenantId },
+  create: { id: tenantId, name: tenantId },
+  update: {},
+});
+await prisma.apiKey.create({
+  data: { tenantId, name, prefix, keyHash, scopes: [...new Set(scopes.data)] },
+});
+
+console.log(`API key for ${tenantId} (${scopes.data.join(", ")}):\n${key}`);
+await prisma.$disconnect();
@@ -0,0 +1,222 @@
+/**
+ * Dead-Letter Queue Routes
+ * Inspect permanently failed jobs (grouped by error signature) and replay them:
+ * a replay resets the job's attempts, records the replay on the job and re-enqueues it
+ */
+import { Router } from "express";
+import { prisma, type DeadLetter, type Prisma } from "@repo/db";
+import { getRedisClient, pushJobs, publishJobUpdates } from "@repo/redis";
+import {
+  ListDeadLettersQuerySchema,
+  DeadLetterGroupsQuerySchema,
+  ReplayDeadLettersSchema,
+  JobIdParamSchema,
+  type DeadLetterResponse,
+} from "@repo/types";
+import { tenantOf } from "./auth.ts";
+
+export const deadLettersRouter = Router();
+
+const redis = getRedisClient();
+
+const REPLAY_BATCH_SIZE = 500; // Dead letters replayed per transaction
+
+/**
+ * Convert a dead-letter row to its API representation
+ */
+function toDeadLetterResponse(deadLetter: DeadLetter): DeadLetterResponse {
+  return {
+    jobId: deadLetter.jobId,
+    tenantId: deadLetter.tenantId,
+    type: deadLetter.type,
+    error: deadLetter.error,
+    errorSignature: deadLetter.errorSignature,
+    attempts: deadLetter.attempts,
+    failedAt: deadLetter.failedAt.toISOString(),
+  };
+}
+
+/**
+ * Replay every dead letter matching `where`, in batches
+ * Entries whose job is no longer FAILED are dropped without replaying.
+ * Returns the number of jobs re-enqueued.
+ */
+async function replayDeadLetters(where: Prisma.DeadLetterWhereInput): Promise<number> {
+  let replayed = 0;
+
+  while (true) {
+    const entries = await prisma.deadLetter.findMany({
+      where,
+      orderBy: { failedAt: "asc" },
+      take: REPLAY_BATCH_SIZE,
+      include: { job: { select: { status: true, priority: true, type: true } } },
+    });
+    if (entries.length === 0) break;
+
+    const failed = entries.filter((entry) => entry.job.status === "FAILED");
+
+    await prisma.$transaction([
+      prisma.job.updateMany({
+        where: { id: { in: failed.map((entry) => entry.jobId) }, status: "FAILED" },
+        data: {
+          status: "PENDING",
+          attempts: 0,
+          error: null,
+          nextRunAt: null,
+          replayCount: { increment: 1 },
+          lastReplayedAt: new Date(),
+        },
+      }),
+      prisma.deadLetter.deleteMany({
+        where: { jobId: { in: entries.map((entry) => entry.jobId) } },
+      }),
+    ]);
+
+    await pushJobs(
+      redis,
+      failed.map((entry) => ({
+        jobId: entry.jobId,
+        tenantId: entry.tenantId,
+        priority: entry.job.priority,
+      }))
+    );
+    await publishJobUpdates(
+      redis,
+      failed.map((entry) => ({
+        tenantId: entry.tenantId,
+        jobId: entry.jobId,
+        jobType: entry.job.type,
+        status: "PENDING" as const,
+      }))
+    );
+
+    replayed += failed.length;
+    if (entries.length < REPLAY_BATCH_SIZE) break;
+  }
+
+  return replayed;
+}
+
+/**
+ * GET /dead-letters - List a tenant's dead letters (newest first)
+ */
+deadLettersRouter.get("/", async (req, res) => {
+  const result = ListDeadLettersQuerySchema.safeParse({ ...req.query, tenantId: tenantOf(res) });
+
+  if (!result.success) {
+    res.status(400).json({
+      error: "Validation failed",
+      message: "Invalid query parameters",
+      details: result.error.format(),
+    });
+    return;
+  }
+
+  const { tenantId, type, errorSignature, limit, offset } = result.data;
+
+  const where = {
+    tenantId,
+    ...(type && { type }),
+    ...(errorSignature && { errorSignature }),
+  };
+
+  const [deadLetters, total] = await Promise.all([
+    prisma.deadLetter.findMany({
+      where,
+      orderBy: { failedAt: "desc" },
+      take: limit,
+      skip: offset,
+    }),
+    prisma.deadLetter.count({ where }),
+  ]);
+
+  res.json({ deadLetters: deadLetters.map(toDeadLetterResponse), total });
+});
+
+/**
+ * GET /dead-letters/groups - Count a tenant's dead letters by type and error signature
+ */
+deadLettersRouter.get("/groups", async (req, res) => {
+  const result = DeadLetterGroupsQuerySchema.safeParse({ ...req.query, tenantId: tenantOf(res) });
+
+  if (!result.success) {
+    res.status(400).json({
+      error: "Validation failed",
+      message: "Invalid query parameters",
+      details: result.error.format(),
+    });
+    return;
+  }
+
+  const { tenantId, type } = result.data;
+
+  const groups = await prisma.deadLetter.groupBy({
+    by: ["type", "errorSignature"],
+    where: { tenantId, ...(type && { type }) },
+    _count: { _all: true },
+    _max: { failedAt: true },
+    orderBy: { _count: { jobId: "desc" } },
+  });
+
+  res.json({
+    groups: groups.map((group) => ({
+      type: group.type,
+      errorSignature: group.errorSignature,
+      count: group._count._all,
+      lastFailedAt: group._max.failedAt?.toISOString() ?? null,
+    })),
+  });
+});
+
+/**
+ * POST /dead-letters/replay - Replay a tenant's dead letters by filter (or all of them)
+ */
+deadLettersRouter.post("/replay", async (req, res) => {
+  const result = ReplayDeadLettersSchema.safeParse(req.body);
+
+  if (!result.success) {
+    res.status(400).json({
+      error: "Validation failed",
+      message: "Invalid request body",
+      details: result.error.format(),
+    });
+    return;
+  }
+
+  const { tenantId, type, errorSignature } = result.data;
+
+  const replayed = await replayDeadLetters({
+    tenantId,
+    ...(type && { type }),
+    ...(errorSignature && { errorSignature }),
+  });
+
+  console.log(`[API] Replayed ${replayed} dead letter(s) for ${tenantId}`);
+  res.json({ replayed });
+});
+
+/**
+ * POST /dead-letters/:id/replay - Replay a single dead-lettered job
+ */
+deadLettersRouter.post("/:id/replay", async (req, res) => {
+  const params = JobIdParamSchema.safeParse(req.params);
+
+  if (!params.success) {
+    res.status(400).json({
+      error: "Validation failed",
+      message: "Invalid job id",
+      details: params.error.format(),
+    });
+    return;
+  }
+
+  const replayed = await replayDeadLetters({ jobId: params.data.id, tenantId: tenantOf(res) });
+
+  if (replayed === 0) {
+    res.status(404).json({ error: "Not found", message: "Dead letter not found" });
+    return;
+  }
+
+  console.log(`[API] Replayed dead letter ${params.data.id}`);
+  res.json({ replayed });
+});
@@ -2,21 +2,88 @@
  * Backend API Server
  * Express + WebSocket for real-time job queue updates
  */
+import { createHash, randomUUID } from "crypto";
 import express from "express";
 import cors from "cors";
 import { createServer } from "http";
 import { WebSocketServer, WebSocket } from "ws";
-import { prisma, Prisma } from "@repo/db";
-import { getRedisClient, pushJob, subscribeToJobUpdates } from "@repo/redis";
+import { prisma, Prisma, type Job, type JobAttempt, type JobLog } from "@repo/db";
 import {
-  CreateJobSchema,
+  getRedisClient,
+  pushJob,
+  pushJobs,
+  scheduleJob,
+  scheduleJobs,
+  removeQueuedJob,
+  unscheduleJob,
+  publishJobUpdate,
+  publishJobCancel,
+  subscribeToJobUpdates,
+  subscribeToJobLogs,
+  claimIdempotencyKey,
+  saveIdempotentResponse,
+  releaseIdempotencyKey,
+  getEventLogPosition,
+  readJobEvents,
+  compareEventIds,
+  type EventLogPosition,
+  type JobStatusEvent,
+  type QueuedJob,
+} from "@repo/redis";
+import {
+  CreateJobBatchSchema,
+  IdempotencyKeySchema,
   ListJobsQuerySchema,
+  JobIdParamSchema,
+  ListJobLogsQuerySchema,
   WSClientMessageSchema,
+  ApiKeyScope,
+  WSErrorCode,
   JobStatus,
-  type WSJobUpdate,
+  withParentOutputs,
+  toFieldErrors,
+  type CreateJobBatchItemResult,
+  type JobLogResponse,
+  type WSJobProgress,
+  type WSJobLog,
   type WSConnected,
   type WSError,
+  type WSAuthenticated,
+  type WSSubscribed,
+  type WSSubscribe,
+  type WSResyncRequired,
+  type WSTokenResponse,
 } from "@repo/types";
+import { getCreateJobSchema } from "@repo/processors";
+import { schedulesRouter } from "./schedules.ts";
+import { tenantsRouter } from "./tenants.ts";
+import { deadLettersRouter } from "./deadletters.ts";
+import { workflowsRouter } from "./workflows.ts";
+import { jobTypesRouter } from "./jobtypes.ts";
+import { apiKeysRouter } from "./apikeys.ts";
+import {
+  MAX_SUBSCRIPTIONS_PER_CONNECTION,
+  addSubscription,
+  matchSubscriptions,
+  removeConnection,
+  removeSubscription,
+  goLive,
+  matchesSubscription,
+  type JobEvent,
+  type JobUpdate,
+  type Subscription,
+} from "./subscriptions.ts";
+import {
+  authenticate,
+  createWsToken,
+  hasScope,
+  requireJobScope,
+  requireOperator,
+  requireScope,
+  tenantOf,
+  verifyToken,
+  type ApiKeyAuth,
+} from "./auth.ts";
 
 // ================================
 // Express Setup
@@ -30,7 +97,12 @@ app.use(cors({
 
 // Redis client for queue operations
 const redis = getRedisClient();
-app.use(express.json());
+app.use(express.json({ limit: "5mb" })); // Room for POST /jobs/batch
+
+// Every route but /health, /job-types and /tenants needs an API key, which decides the tenant
+app.use(["/jobs", "/workflows", "/schedules", "/dead-letters"], authenticate, requireJobScope);
+app.use("/api-keys", authenticate, requireScope(ApiKeyScope.ADMIN));
+app.use("/tenants", requireOperator); // Queue-sharing settings: operator only
 
 const httpServer = createServer(app);
 
@@ -40,84 +112,326 @@ const httpServer = createServer(app);
 
 const wss = new WebSocketServer({ server: httpServer, path: "/ws" });
 
-// Track subscriptions: tenantId -> Set of WebSocket connections
-const subscriptions = new Map<string, Set<WebSocket>>();
+// Missed updates are read from the tenant's event log in pages of this size
+const REPLAY_PAGE_SIZE = 500;
+
+// Connections that haven't sent a valid token by then are closed
+const WS_AUTH_TIMEOUT_MS = 10_000;
+const WS_CLOSE_UNAUTHORIZED = 4401;
+
+// How often an open connection's token is checked again (expired or revoked closes it)
+const WS_AUTH_RECHECK_MS = 60_000;
+
+// Track log tails: jobId -> Set of WebSocket connections
+const logSubscriptions = new Map<string, Set<WebSocket>>();
+
+/**
+ * Send a typed error to a client
+ */
+function sendWsError(ws: WebSocket, code: WSErrorCode, message: string) {
+  const errorMsg: WSError = { type: "ERROR", code, message };
+  ws.send(JSON.stringify(errorMsg));
+}
 
-wss.on("connection", (ws) => {
+wss.on("connection", (ws, req) => {
   console.log("[WS] Client connected");
 
-  // Send connected message
-  const connectedMsg: WSConnected = {
-    type: "CONNECTED",
-    message: "Connected to job updates",
-  };
-  ws.send(JSON.stringify(connectedMsg));
+  let auth: ApiKeyAuth | null = null;
+  let authToken: string | null = null;
+  let recheckTimer: ReturnType<typeof setInterval> | null = null;
 
-  ws.on("message", (data) => {
+  const authTimer = setTimeout(() => {
+    if (!auth) ws.close(WS_CLOSE_UNAUTHORIZED, "Authentication timeout");
+  }, WS_AUTH_TIMEOUT_MS);
+
+  /**
+   * Check a token; on success the connection belongs to its tenant from now on
+   * A later AUTH may refresh the token, but only for the same tenant.
+   */
+  async function authenticateConnection(token: string): Promise<void> {
+    const verified = await verifyToken(token);
+
+    if (!verified || !hasScope(verified, ApiKeyScope.JOBS_READ)) {
+      sendWsError(
+        ws,
+        verified ? WSErrorCode.FORBIDDEN : WSErrorCode.INVALID_TOKEN,
+        verified ? "Token lacks the jobs:read scope" : "Invalid, revoked or expired token"
+      );
+      ws.close(WS_CLOSE_UNAUTHORIZED, "Unauthorized");
+      return;
+    }
+
+    if (auth && verified.tenantId !== auth.tenantId) {
+      sendWsError(
+        ws,
+        WSErrorCode.FORBIDDEN,
+        `Connection is authenticated for tenant ${auth.tenantId}; open a new one for another tenant`
+      );
+      return;
+    }
+
+    auth = verified;
+    authToken = token;
+    clearTimeout(authTimer);
+    recheckTimer ??= setInterval(() => {
+      handling = handling
+        .then(recheckAuthentication)
+        .catch((error) => console.error("[WS] Failed to re-check authentication:", error));
+    }, WS_AUTH_RECHECK_MS);
+
+    const authenticatedMsg: WSAuthenticated = { type: "AUTHENTICATED", tenantId: auth.tenantId };
+    ws.send(JSON.stringify(authenticatedMsg));
+    console.log(`[WS] Client authenticated for tenant: ${auth.tenantId}`);
+  }
+
+  /**
+   * Close the connection once its token has expired or its key was revoked
+   */
+  async function recheckAuthentication(): Promise<void> {
+    if (!authToken || ws.readyState !== WebSocket.OPEN) return;
+
+    const verified = await verifyToken(authToken);
+    if (verified && hasScope(verified, ApiKeyScope.JOBS_READ)) return;
+
+    sendWsError(ws, WSErrorCode.INVALID_TOKEN, "Token expired or was revoked");
+    ws.close(WS_CLOSE_UNAUTHORIZED, "Unauthorized");
+  }
+
+  async function handleMessage(data: string): Promise<void> {
+    let message: unknown;
     try {
-      const message = JSON.parse(data.toString());
-      const result = WSClientMessageSchema.safeParse(message);
-
-      if (!result.success) {
-        const errorMsg: WSError = {
-          type: "ERROR",
-          message: "Invalid message format",
-        };
-        ws.send(JSON.stringify(errorMsg));
+      message = JSON.parse(data);
+    } catch {
+      sendWsError(ws, WSErrorCode.INVALID_MESSAGE, "Failed to parse message");
+      return;
+    }
+
+    const result = WSClientMessageSchema.safeParse(message);
+
+    if (!result.success) {
+      sendWsError(ws, WSErrorCode.INVALID_MESSAGE, "Invalid message format");
+      return;
+    }
+
+    const parsed = result.data;
+
+    if (parsed.type === "AUTH") {
+      await authenticateConnection(parsed.token);
+      return;
+    }
+
+    if (!auth) {
+      sendWsError(ws, WSErrorCode.UNAUTHENTICATED, "Send an AUTH message first");
+      return;
+    }
+
+    if (parsed.type === "SUBSCRIBE" || parsed.type === "UNSUBSCRIBE") {
+      if (parsed.tenantId !== auth.tenantId) {
+        sendWsError(ws, WSErrorCode.FORBIDDEN, `Not allowed to see tenant ${parsed.tenantId}`);
+        return;
+      }
+    }
+
+    if (parsed.type === "SUBSCRIBE") {
+      const subscription = addSubscription(ws, parsed);
+      if (!subscription) {
+        sendWsError(
+          ws,
+          WSErrorCode.LIMIT_EXCEEDED,
+          `At most ${MAX_SUBSCRIPTIONS_PER_CONNECTION} subscriptions per connection`
+        );
         return;
       }
 
-      const parsed = result.data;
+      await startSubscription(ws, parsed, subscription);
+      console.log(
+        `[WS] Client subscribed to tenant: ${parsed.tenantId} (${parsed.subscriptionId})`
+      );
+    }
+
+    if (parsed.type === "UNSUBSCRIBE") {
+      removeSubscription(ws, parsed.tenantId, parsed.subscriptionId);
+      console.log(`[WS] Client unsubscribed from tenant: ${parsed.tenantId}`);
+    }
 
-      if (parsed.type === "SUBSCRIBE") {
-        // Add to subscriptions
-        if (!subscriptions.has(parsed.tenantId)) {
-          subscriptions.set(parsed.tenantId, new Set());
-        }
-        subscriptions.get(parsed.tenantId)!.add(ws);
-        console.log(`[WS] Client subscribed to tenant: ${parsed.tenantId}`);
+    if (parsed.type === "SUBSCRIBE_LOGS") {
+      const job = await prisma.job.findFirst({
+        where: { id: parsed.jobId, tenantId: auth.tenantId },
+        select: { id: true },
+      });
+
+      if (!job) {
+        sendWsError(ws, WSErrorCode.NOT_FOUND, `Job ${parsed.jobId} not found`);
+        return;
       }
 
-      if (parsed.type === "UNSUBSCRIBE") {
-        // Remove from subscriptions
-        subscriptions.get(parsed.tenantId)?.delete(ws);
-        console.log(`[WS] Client unsubscribed from tenant: ${parsed.tenantId}`);
+      if (!logSubscriptions.has(parsed.jobId)) {
+        logSubscriptions.set(parsed.jobId, new Set());
       }
-    } catch {
-      const errorMsg: WSError = {
-        type: "ERROR",
-        message: "Failed to parse message",
-      };
-      ws.send(JSON.stringify(errorMsg));
+      logSubscriptions.get(parsed.jobId)!.add(ws);
+      console.log(`[WS] Client tailing logs of job: ${parsed.jobId}`);
+    }
+
+    if (parsed.type === "UNSUBSCRIBE_LOGS") {
+      const clients = logSubscriptions.get(parsed.jobId);
+      clients?.delete(ws);
+      if (clients?.size === 0) logSubscriptions.delete(parsed.jobId);
     }
+  }
+
+  // Messages are handled one at a time, so an AUTH completes before the SUBSCRIBE after it
+  let handling: Promise<void> = Promise.resolve();
+
+  ws.on("message", (data) => {
+    handling = handling
+      .then(() => handleMessage(data.toString()))
+      .catch((error) => console.error("[WS] Failed to handle message:", error));
   });
 
   ws.on("close", () => {
+    clearTimeout(authTimer);
+    if (recheckTimer) clearInterval(recheckTimer);
     // Remove from all subscriptions
-    subscriptions.forEach((clients) => clients.delete(ws));
+    removeConnection(ws);
+    logSubscriptions.forEach((clients, jobId) => {
+      clients.delete(ws);
+      if (clients.size === 0) logSubscriptions.delete(jobId);
+    });
     console.log("[WS] Client disconnected");
   });
+
+  // Send connected message
+  const connectedMsg: WSConnected = {
+    type: "CONNECTED",
+    message: "Connected to job updates",
+  };
+  ws.send(JSON.stringify(connectedMsg));
+
+  // A token in the URL (/ws?token=...) authenticates the connection right away
+  const token = new URL(req.url ?? "/", "http://localhost").searchParams.get("token");
+  if (token) {
+    handling = handling
+      .then(() => authenticateConnection(token))
+      .catch((error) => console.error("[WS] Failed to authenticate:", error));
+  }
 });
 
 /**
- * Broadcast job update to all subscribers of a tenant
+ * Replay the updates a new subscription missed since `lastEventId`, then take it live
+ * Live updates are held back meanwhile; those already replayed are skipped.
+ * If the replay fails, the subscription is removed and the client gets REPLAY_FAILED.
  */
-export function broadcastJobUpdate(
+async function startSubscription(
+  ws: WebSocket,
+  message: WSSubscribe,
+  subscription: Subscription
+): Promise<void> {
+  const { tenantId, subscriptionId, lastEventId } = message;
+  const send = (payload: object) => {
+    if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(payload));
+  };
+
+  let position: EventLogPosition;
+  let cursor: string | undefined;
+  try {
+    position = await getEventLogPosition(redis, tenantId, lastEventId);
+    cursor = position.resumable ? lastEventId : undefined;
+
+    if (!position.resumable) {
+      const resyncMsg: WSResyncRequired = {
+        type: "RESYNC_REQUIRED",
+        subscriptionId,
+        message: `Updates since ${lastEventId} are no longer available`,
+      };
+      send(resyncMsg);
+    }
+
+    while (cursor !== undefined && ws.readyState === WebSocket.OPEN) {
+      const events = await readJobEvents(redis, tenantId, cursor, REPLAY_PAGE_SIZE);
+      for (const event of events) {
+        if (matchesSubscription(subscription, event)) {
+          send({ ...toJobUpdate(event), subscriptionIds: [subscriptionId] });
+        }
+        cursor = event.eventId;
+      }
+      if (events.length < REPLAY_PAGE_SIZE) break;
+    }
+  } catch (error) {
+    // Never taken live, so drop it rather than hold its updates indefinitely
+    console.error(`[WS] Failed to replay subscription ${subscriptionId}:`, error);
+    removeSubscription(ws, tenantId, subscriptionId);
+    sendWsError(
+      ws,
+      WSErrorCode.REPLAY_FAILED,
+      `Failed to replay updates for subscription ${subscriptionId}; subscribe again`
+    );
+    return;
+  }
+
+  const held = goLive(subscription);
+
+  // After a replay the cursor is the newest event read, at least as new as the position
+  const subscribedMsg: WSSubscribed = {
+    type: "SUBSCRIBED",
+    subscriptionId,
+    lastEventId: cursor ?? position.lastEventId,
+  };
+  send(subscribedMsg);
+
+  for (const update of held) {
+    if (cursor === undefined || compareEventIds(update.eventId, cursor) > 0) {
+      send({ ...update, subscriptionIds: [subscriptionId] });
+    }
+  }
+}
+
+/**
+ * Send a message to the connections with a subscription matching it
+ * Each connection gets it once, with the ids of the subscriptions it matched.
+ */
+function broadcastToTenant(
   tenantId: string,
-  jobId: string,
-  status: string,
-  error: string | null = null
+  event: JobEvent,
+  message: JobUpdate | Omit<WSJobProgress, "subscriptionIds">
 ) {
-  const clients = subscriptions.get(tenantId);
-  if (!clients) return;
+  const update = message.type === "JOB_UPDATE" ? message : undefined;
+  matchSubscriptions(tenantId, event, update).forEach((subscriptionIds, client) => {
+    if (client.readyState === WebSocket.OPEN) {
+      client.send(JSON.stringify({ ...message, subscriptionIds }));
+    }
+  });
+}
 
-  const message: WSJobUpdate = {
+/**
+ * Convert a logged job status change to a WebSocket update
+ */
+function toJobUpdate(event: JobStatusEvent): JobUpdate {
+  return {
     type: "JOB_UPDATE",
-    jobId,
-    status: status as WSJobUpdate["status"],
-    error,
+    jobId: event.jobId,
+    jobType: event.jobType,
+    eventId: event.eventId,
+    status: event.status,
+    error: event.error ?? null,
+    ...(event.output !== undefined && { output: event.output }),
   };
+}
+
+/**
+ * Broadcast job update to the matching subscribers of a tenant
+ */
+export function broadcastJobUpdate(event: JobStatusEvent) {
+  broadcastToTenant(event.tenantId, event, toJobUpdate(event));
+}
+
+/**
+ * Send new log lines of a job to the clients tailing it
+ */
+export function broadcastJobLogs(jobId: string, lines: WSJobLog["lines"]) {
+  const clients = logSubscriptions.get(jobId);
+  if (!clients) return;
 
+  const message: WSJobLog = { type: "JOB_LOG", jobId, lines };
   const payload = JSON.stringify(message);
   clients.forEach((client) => {
     if (client.readyState === WebSocket.OPEN) {
@@ -126,44 +440,272 @@ export function broadcastJobUpdate(
   });
 }
 
+/**
+ * Broadcast a running job's progress to the matching subscribers of a tenant
+ */
+export function broadcastJobProgress(
+  tenantId: string,
+  jobId: string,
+  jobType: string,
+  percent: number,
+  message: string | null = null
+) {
+  broadcastToTenant(
+    tenantId,
+    { jobId, jobType, status: JobStatus.RUNNING },
+    { type: "JOB_PROGRESS", jobId, jobType, percent, message }
+  );
+}
+
+/**
+ * Serialize a job for API responses
+ */
+function toJobResponse(job: Job) {
+  return {
+    ...job,
+    nextRunAt: job.nextRunAt?.toISOString() ?? null,
+    lastReplayedAt: job.lastReplayedAt?.toISOString() ?? null,
+    createdAt: job.createdAt.toISOString(),
+    updatedAt: job.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Serialize a job attempt for API responses
+ */
+function toJobAttemptResponse(attempt: JobAttempt) {
+  return {
+    attempt: attempt.attempt,
+    replay: attempt.replay,
+    workerId: attempt.workerId,
+    startedAt: attempt.startedAt.toISOString(),
+    finishedAt: attempt.finishedAt?.toISOString() ?? null,
+    durationMs: attempt.durationMs,
+    outcome: attempt.outcome,
+    error: attempt.error,
+    stack: attempt.stack,
+  };
+}
+
+/**
+ * Serialize a job log line for API responses
+ */
+function toJobLogResponse(log: JobLog): JobLogResponse {
+  return {
+    replay: log.replay,
+    attempt: log.attempt,
+    line: log.line,
+    level: log.level,
+    message: log.message,
+    timestamp: log.createdAt.toISOString(),
+  };
+}
+
+/**
+ * When a job should first run, or null to run it now
+ * Jobs due in the future wait in the delayed set until the scheduler promotes them
+ */
+function resolveScheduledAt(runAt?: string, delayMs?: number): Date | null {
+  const scheduledAt =
+    runAt !== undefined ? new Date(runAt) : delayMs !== undefined ? new Date(Date.now() + delayMs) : null;
+  return scheduledAt !== null && scheduledAt.getTime() > Date.now() ? scheduledAt : null;
+}
+
+/**
+ * Hash a request body for idempotency checks (key order doesn't matter)
+ */
+function hashRequestBody(body: unknown): string {
+  const canonical = JSON.stringify(body, (_key, value: unknown) =>
+    value && typeof value === "object" && !Array.isArray(value)
+      ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)))
+      : value
+  );
+  return createHash("sha256").update(canonical).digest("hex");
+}
+
+/**
+ * Load the parent jobs a new job depends on (only those in the same tenant)
+ */
+async function findParentJobs(tenantId: string, parentIds: string[]) {
+  if (parentIds.length === 0) return [];
+  return prisma.job.findMany({
+    where: { id: { in: parentIds }, tenantId },
+    select: { id: true, status: true, workflowKey: true, output: true },
+  });
+}
+
+/**
+ * Why a job can't depend on these parents, or null if it can
+ * Parents must exist in the same tenant and must not have failed or been cancelled.
+ */
+function describeInvalidParents(
+  parentIds: string[],
+  parents: { id: string; status: Job["status"] }[]
+): string | null {
+  const found = new Set(parents.map((parent) => parent.id));
+  const missing = parentIds.filter((id) => !found.has(id));
+  if (missing.length > 0) {
+    return `Parent job(s) not found: ${missing.join(", ")}`;
+  }
+
+  const broken = parents.find(
+    (parent) => parent.status === JobStatus.FAILED || parent.status === JobStatus.CANCELLED
+  );
+  if (broken) {
+    return `Parent job ${broken.id} is already ${broken.status}`;
+  }
+
+  return null;
+}
+
 // ================================
 // API Routes
 // ================================
 
 /**
  * POST /jobs - Create a new job
+ * Send an `Idempotency-Key` header to make retries safe
  */
 app.post("/jobs", async (req, res) => {
-  const result = CreateJobSchema.safeParse(req.body);
+  // Checks the payload against its job type's registered schema too
+  const result = getCreateJobSchema().safeParse(req.body);
 
   if (!result.success) {
     res.status(400).json({
       error: "Validation failed",
       message: "Invalid request body",
       details: result.error.format(),
+      fields: toFieldErrors(result.error),
     });
     return;
   }
 
-  const { tenantId, type, payload } = result.data;
+  const {
+    tenantId,
+    type,
+    priority,
+    retryPolicy,
+    timeoutMs,
+    runAt,
+    delayMs,
+    dependsOn,
+    onParentFailure,
+    payload,
+  } = result.data;
+
+  // Optional Idempotency-Key: retries with the same key and body get the original response
+  const idempotencyHeader = req.header("Idempotency-Key");
+  const idempotencyKey =
+    idempotencyHeader !== undefined ? IdempotencyKeySchema.safeParse(idempotencyHeader) : null;
+
+  if (idempotencyKey && !idempotencyKey.success) {
+    res.status(400).json({
+      error: "Validation failed",
+      message: "Invalid Idempotency-Key header",
+      details: idempotencyKey.error.format(),
+    });
+    return;
+  }
+
+  const key = idempotencyKey?.data;
+  const requestHash = hashRequestBody(result.data);
+
+  if (key) {
+    try {
+      const claim = await claimIdempotencyKey(redis, tenantId, key, requestHash);
+
+      if (claim.status === "mismatch") {
+        res.status(422).json({
+          error: "Idempotency key reused",
+          message: "Idempotency-Key was already used with a different request body",
+        });
+        return;
+      }
+
+      if (claim.status === "in_progress") {
+        res.status(409).json({
+          error: "Conflict",
+          message: "A request with this Idempotency-Key is still in progress",
+        });
+        return;
+      }
+
+      if (claim.status === "replay") {
+        res.set("Idempotent-Replayed", "true");
+        res.status(claim.response.statusCode).json(claim.response.body);
+        return;
+      }
+    } catch (error) {
+      console.error("[Redis Error]", error);
+      res.status(500).json({
+        error: "Redis error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+      return;
+    }
+  }
+
+  const scheduledAt = resolveScheduledAt(runAt, delayMs);
+  const isScheduled = scheduledAt !== null;
+  const parentIds = [...new Set(dependsOn ?? [])];
 
   try {
+    const parents = await findParentJobs(tenantId, parentIds);
+    const parentError = describeInvalidParents(parentIds, parents);
+
+    if (parentError) {
+      if (key) await releaseIdempotencyKey(redis, tenantId, key);
+      res.status(422).json({ error: "Invalid dependencies", message: parentError });
+      return;
+    }
+
+    // Parents that already completed are settled now; the rest are waited on
+    const isWaiting = parents.some((parent) => parent.status !== JobStatus.COMPLETED);
+    const jobPayload =
+      parents.length > 0 && !isWaiting ? withParentOutputs(payload, parents) : payload;
+
     const job = await prisma.job.create({
       data: {
         tenantId,
         type,
-        payload: payload as Prisma.InputJsonValue,
-        status: JobStatus.PENDING,
+        payload: jobPayload as Prisma.InputJsonValue,
+        status: isWaiting
+          ? JobStatus.WAITING
+          : isScheduled
+            ? JobStatus.SCHEDULED
+            : JobStatus.PENDING,
+        priority,
+        retryPolicy,
+        timeoutMs,
+        nextRunAt: isScheduled ? scheduledAt : null,
+        onParentFailure,
+        dependencies: { create: parentIds.map((dependsOnId) => ({ dependsOnId })) },
       },
     });
 
-    // Push to Redis queue for worker to process
-    await pushJob(redis, job.id);
-    console.log(`[API] Job ${job.id} pushed to queue`);
+    if (isWaiting) {
+      console.log(`[API] Job ${job.id} waiting on ${parentIds.length} parent job(s)`);
+    } else if (isScheduled) {
+      await scheduleJob(redis, job.id, scheduledAt, { tenantId, priority });
+      console.log(`[API] Job ${job.id} scheduled for ${scheduledAt.toISOString()}`);
+    } else {
+      // Push to Redis queue for worker to process
+      await pushJob(redis, job.id, { tenantId, priority });
+      console.log(`[API] Job ${job.id} pushed to ${priority} queue`);
+    }
+
+    const body = { jobId: job.id };
+    if (key) {
+      await saveIdempotentResponse(redis, tenantId, key, requestHash, { statusCode: 201, body });
+    }
 
-    res.status(201).json({ jobId: job.id });
+    res.status(201).json(body);
   } catch (error) {
     console.error("[Prisma Error]", error);
+    if (key) {
+      // Let the client retry with the same key
+      await releaseIdempotencyKey(redis, tenantId, key).catch(() => {});
+    }
     res.status(500).json({
       error: "Database error",
       message: error instanceof Error ? error.message : "Unknown error",
@@ -172,11 +714,147 @@ app.post("/jobs", async (req, res) => {
   }
 });
 
+/**
+ * POST /jobs/batch - Create many jobs in one request
+ * Each item is validated on its own; valid items are inserted with one createMany
+ * and queued with one Redis round trip. Returns a result per item, in request order.
+ */
+app.post("/jobs/batch", async (req, res) => {
+  const result = CreateJobBatchSchema.safeParse(req.body);
+
+  if (!result.success) {
+    res.status(400).json({
+      error: "Validation failed",
+      message: "Invalid request body",
+      details: result.error.format(),
+    });
+    return;
+  }
+
+  const results: CreateJobBatchItemResult[] = [];
+  const rows: Prisma.JobCreateManyInput[] = [];
+  const queued: QueuedJob[] = [];
+  const scheduled: (QueuedJob & { runAt: Date })[] = [];
+
+  const createJobSchema = getCreateJobSchema();
+  const keyTenantId = tenantOf(res);
+
+  result.data.jobs.forEach((item, index) => {
+    // Items default to the API key's tenant
+    const parsed = createJobSchema.safeParse(
+      item && typeof item === "object" ? { tenantId: keyTenantId, ...item } : item
+    );
+
+    if (!parsed.success) {
+      results.push({
+        index,
+        success: false,
+        error: "Validation failed",
+        details: parsed.error.format(),
+        fields: toFieldErrors(parsed.error),
+      });
+      return;
+    }
+
+    const { tenantId, type, payload, priority, retryPolicy, timeoutMs, runAt, delayMs, dependsOn } =
+      parsed.data;
+
+    if (tenantId !== keyTenantId) {
+      results.push({
+        index,
+        success: false,
+        error: "tenantId does not match the API key's tenant",
+      });
+      return;
+    }
+
+    // Dependencies need their parents checked one by one - use POST /workflows instead
+    if (dependsOn) {
+      results.push({
+        index,
+        success: false,
+        error: "dependsOn is not supported in batches; submit dependent jobs with POST /workflows",
+      });
+      return;
+    }
+
+    const scheduledAt = resolveScheduledAt(runAt, delayMs);
+    const id = randomUUID();
+
+    rows.push({
+      id,
+      tenantId,
+      type,
+      payload: payload as Prisma.InputJsonValue,
+      status: scheduledAt ? JobStatus.SCHEDULED : JobStatus.PENDING,
+      priority,
+      retryPolicy,
+      timeoutMs,
+      nextRunAt: scheduledAt,
+    });
+
+    if (scheduledAt) {
+      scheduled.push({ jobId: id, tenantId, priority, runAt: scheduledAt });
+    } else {
+      queued.push({ jobId: id, tenantId, priority });
+    }
+
+    results.push({ index, success: true, jobId: id });
+  });
+
+  if (rows.length > 0) {
+    try {
+      await prisma.job.createMany({ data: rows });
+    } catch (error) {
+      console.error("[Prisma Error]", error);
+      res.status(500).json({
+        error: "Database error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+      return;
+    }
+
+    try {
+      await Promise.all([pushJobs(redis, queued), scheduleJobs(redis, scheduled)]);
+    } catch (error) {
+      console.error("[Redis Error]", error);
+      // Nothing would ever queue the PENDING rows, and a retry would duplicate them: remove
+      // the batch (a worker skips ids already queued). Ids are returned only if that fails.
+      const jobIds = rows.map((row) => row.id!);
+      const removed = await prisma.job
+        .deleteMany({ where: { id: { in: jobIds } } })
+        .then(
+          () => true,
+          (deleteError) => {
+            console.error("[Prisma Error] Failed to remove unqueued batch:", deleteError);
+            return false;
+          }
+        );
+      res.status(500).json({
+        error: "Queue error",
+        message: removed
+          ? "Failed to queue the jobs; none were created"
+          : "Failed to queue the jobs; they were created but may not run",
+        ...(!removed && { jobIds }),
+      });
+      return;
+    }
+  }
+
+  const created = rows.length;
+  const failed = results.length - created;
+  console.log(`[API] Batch: ${created} job(s) created, ${failed} rejected`);
+
+  // 201 all created, 207 partly, 400 none
+  const status = failed === 0 ? 201 : created > 0 ? 207 : 400;
+  res.status(status).json({ results, created, failed });
+});
+
 /**
  * GET /jobs - List jobs for a tenant
  */
 app.get("/jobs", async (req, res) => {
-  const result = ListJobsQuerySchema.safeParse(req.query);
+  const result = ListJobsQuerySchema.safeParse({ ...req.query, tenantId: tenantOf(res) });
 
   if (!result.success) {
     res.status(400).json({
@@ -205,15 +883,247 @@ app.get("/jobs", async (req, res) => {
   ]);
 
   res.json({
-    jobs: jobs.map((job) => ({
-      ...job,
-      createdAt: job.createdAt.toISOString(),
-      updatedAt: job.updatedAt.toISOString(),
-    })),
+    jobs: jobs.map(toJobResponse),
     total,
   });
 });
 
+/**
+ * GET /jobs/:id - Get a job with its attempt history
+ */
+app.get("/jobs/:id", async (req, res) => {
+  const params = JobIdParamSchema.safeParse(req.params);
+
+  if (!params.success) {
+    res.status(400).json({
+      error: "Validation failed",
+      message: "Invalid job id",
+      details: params.error.format(),
+    });
+    return;
+  }
+
+  const job = await prisma.job.findFirst({
+    where: { id: params.data.id, tenantId: tenantOf(res) },
+    include: { jobAttempts: { orderBy: [{ replay: "asc" }, { attempt: "asc" }] } },
+  });
+
+  if (!job) {
+    res.status(404).json({ error: "Not found", message: "Job not found" });
+    return;
+  }
+
+  const { jobAttempts, ...rest } = job;
+  res.json({
+    ...toJobResponse(rest),
+    jobAttempts: jobAttempts.map(toJobAttemptResponse),
+  });
+});
+
+/**
+ * GET /jobs/:id/result - Get a completed job's output
+ */
+app.get("/jobs/:id/result", async (req, res) => {
+  const params = JobIdParamSchema.safeParse(req.params);
+
+  if (!params.success) {
+    res.status(400).json({
+      error: "Validation failed",
+      message: "Invalid job id",
+      details: params.error.format(),
+    });
+    return;
+  }
+
+  const job = await prisma.job.findFirst({
+    where: { id: params.data.id, tenantId: tenantOf(res) },
+    select: { id: true, status: true, output: true, outputTruncated: true },
+  });
+
+  if (!job) {
+    res.status(404).json({ error: "Not found", message: "Job not found" });
+    return;
+  }
+
+  if (job.status !== JobStatus.COMPLETED) {
+    res.status(409).json({
+      error: "Conflict",
+      message: `Job has no result (status ${job.status})`,
+    });
+    return;
+  }
+
+  res.json({
+    jobId: job.id,
+    status: job.status,
+    output: job.output,
+    outputTruncated: job.outputTruncated,
+  });
+});
+
+/**
+ * GET /jobs/:id/logs - Get a job's stored log lines, oldest first
+ * Lines of a running job arrive live over WebSocket (SUBSCRIBE_LOGS)
+ */
+app.get("/jobs/:id/logs", async (req, res) => {
+  const params = JobIdParamSchema.safeParse(req.params);
+
+  if (!params.success) {
+    res.status(400).json({
+      error: "Validation failed",
+      message: "Invalid job id",
+      details: params.error.format(),
+    });
+    return;
+  }
+
+  const query = ListJobLogsQuerySchema.safeParse(req.query);
+
+  if (!query.success) {
+    res.status(400).json({
+      error: "Validation failed",
+      message: "Invalid query parameters",
+      details: query.error.format(),
+    });
+    return;
+  }
+
+  const job = await prisma.job.findFirst({
+    where: { id: params.data.id, tenantId: tenantOf(res) },
+    select: { id: true },
+  });
+
+  if (!job) {
+    res.status(404).json({ error: "Not found", message: "Job not found" });
+    return;
+  }
+
+  const { replay, attempt, level, limit, offset } = query.data;
+  const where: Prisma.JobLogWhereInput = {
+    jobId: job.id,
+    ...(replay !== undefined && { replay }),
+    ...(attempt !== undefined && { attempt }),
+    ...(level && { level }),
+  };
+
+  const [logs, total] = await Promise.all([
+    prisma.jobLog.findMany({
+      where,
+      orderBy: [{ replay: "asc" }, { attempt: "asc" }, { line: "asc" }],
+      take: limit,
+      skip: offset,
+    }),
+    prisma.jobLog.count({ where }),
+  ]);
+
+  res.json({ jobId: job.id, logs: logs.map(toJobLogResponse), total });
+});
+
+/**
+ * POST /jobs/:id/cancel - Cancel a job that hasn't finished
+ * Queued jobs are removed from the queue; a running job is aborted by its worker.
+ * Jobs waiting on it are failed or cancelled per their onParentFailure policy.
+ */
+app.post("/jobs/:id/cancel", async (req, res) => {
+  const params = JobIdParamSchema.safeParse(req.params);
+
+  if (!params.success) {
+    res.status(400).json({
+      error: "Validation failed",
+      message: "Invalid job id",
+      details: params.error.format(),
+    });
+    return;
+  }
+
+  const job = await prisma.job.findFirst({
+    where: { id: params.data.id, tenantId: tenantOf(res) },
+  });
+
+  if (!job) {
+    res.status(404).json({ error: "Not found", message: "Job not found" });
+    return;
+  }
+
+  // Guard on status so a job finishing at the same moment isn't overwritten
+  const cancelled = await prisma.job.updateMany({
+    where: {
+      id: job.id,
+      status: {
+        in: [JobStatus.PENDING, JobStatus.SCHEDULED, JobStatus.RUNNING, JobStatus.WAITING],
+      },
+    },
+    data: { status: JobStatus.CANCELLED, nextRunAt: null },
+  });
+
+  if (cancelled.count === 0) {
+    const current = await prisma.job.findUnique({
+      where: { id: job.id },
+      select: { status: true },
+    });
+    res.status(409).json({
+      error: "Conflict",
+      message: `Job is already ${current?.status ?? job.status}`,
+    });
+    return;
+  }
+
+  const route = { tenantId: job.tenantId, priority: job.priority };
+  await Promise.all([removeQueuedJob(redis, job.id, route), unscheduleJob(redis, job.id)]);
+
+  // A worker may have popped it already - tell it to abort
+  await publishJobCancel(redis, { tenantId: job.tenantId, jobId: job.id });
+  await publishJobUpdate(redis, {
+    tenantId: job.tenantId,
+    jobId: job.id,
+    jobType: job.type,
+    status: "CANCELLED",
+  });
+  console.log(`[API] Job ${job.id} cancelled (was ${job.status})`);
+
+  res.json({ jobId: job.id, status: JobStatus.CANCELLED });
+});
+
+/**
+ * /schedules - Recurring job schedules
+ */
+app.use("/schedules", schedulesRouter);
+
+/**
+ * /tenants - Per-tenant queue settings (operator key)
+ */
+app.use("/tenants", tenantsRouter);
+
+/**
+ * /dead-letters - Permanently failed jobs: inspection and replay
+ */
+app.use("/dead-letters", deadLettersRouter);
+
+/**
+ * /workflows - DAGs of dependent jobs submitted at once
+ */
+app.use("/workflows", workflowsRouter);
+
+/**
+ * /api-keys - The tenant's API keys (admin scope)
+ */
+app.use("/api-keys", apiKeysRouter);
+
+/**
+ * POST /ws-tokens - Mint a short-lived token for the /ws handshake (jobs:read scope)
+ * Lets a browser open a WebSocket without holding a long-lived API key.
+ */
+app.post("/ws-tokens", authenticate, requireScope(ApiKeyScope.JOBS_READ), (_req, res) => {
+  const { token, expiresAt } = createWsToken(res.locals.auth!);
+  const response: WSTokenResponse = { token, expiresAt: expiresAt.toISOString() };
+  res.status(201).json(response);
+});
+
+/**
+ * /job-types - Registered job types and their payload schemas
+ */
+app.use("/job-types", jobTypesRouter);
+
 /**
  * GET /health - Health check endpoint
  */
@@ -233,14 +1143,31 @@ const REDIS_URL = process.env.REDIS_URL || "redis://localhost:6379";
 
 // Subscribe to Redis Pub/Sub for job updates from worker
 const unsubscribe = subscribeToJobUpdates(REDIS_URL, (message) => {
+  if (message.type === "JOB_PROGRESS") {
+    broadcastJobProgress(
+      message.tenantId,
+      message.jobId,
+      message.jobType,
+      message.percent,
+      message.message
+    );
+    return;
+  }
+
   console.log(`[Redis] Job update: ${message.jobId} → ${message.status}`);
-  broadcastJobUpdate(message.tenantId, message.jobId, message.status, message.error ?? null);
+  broadcastJobUpdate(message);
+});
+
+// Subscribe to job log lines (forwarded only to clients tailing the job)
+const unsubscribeLogs = subscribeToJobLogs(REDIS_URL, (message) => {
+  broadcastJobLogs(message.jobId, message.lines);
 });
 
 // Graceful shutdown
 process.on("SIGINT", () => {
   console.log("\n[Server] Shutting down...");
   unsubscribe();
+  unsubscribeLogs();
   prisma.$disconnect();
   process.exit(0);
 });
@@ -0,0 +1,15 @@
+/**
+ * Job Type Routes
+ * The catalog of job types registered in @repo/processors (used by the dashboard)
+ */
+import { Router } from "express";
+import { describeProcessors } from "@repo/processors";
+
+export const jobTypesRouter = Router();
+
+/**
+ * GET /job-types - List registered job types with their payload schemas
+ */
+jobTypesRouter.get("/", (_req, res) => {
+  res.json({ jobTypes: describeProcessors() });
+});
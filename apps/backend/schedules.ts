@@ -0,0 +1,259 @@
+/**
+ * Recurring Job (Schedule) Routes
+ * CRUD for cron schedules; the worker's recurring scheduler turns them into jobs
+ */
+import { randomUUID } from "crypto";
+import { Router } from "express";
+import { prisma, Prisma, type RecurringJob } from "@repo/db";
+import {
+  CreateScheduleSchema,
+  UpdateScheduleSchema,
+  ListSchedulesQuerySchema,
+  ScheduleIdParamSchema,
+  getNextCronRun,
+  renderPayloadTemplate,
+  type ScheduleResponse,
+} from "@repo/types";
+import { getProcessor, parseJobPayload } from "@repo/processors";
+import { tenantOf } from "./auth.ts";
+
+export const schedulesRouter = Router();
+
+/**
+ * Convert a schedule row to its API representation
+ */
+function toScheduleResponse(schedule: RecurringJob): ScheduleResponse {
+  return {
+    id: schedule.id,
+    tenantId: schedule.tenantId,
+    type: schedule.type,
+    payload: schedule.payload,
+    cronExpression: schedule.cronExpression,
+    timezone: schedule.timezone,
+    enabled: schedule.enabled,
+    priority: schedule.priority,
+    lastRunAt: schedule.lastRunAt?.toISOString() ?? null,
+    nextRunAt: schedule.nextRunAt?.toISOString() ?? null,
+    createdAt: schedule.createdAt.toISOString(),
+    updatedAt: schedule.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Check a payload template against its job type's schema, rendered as an occurrence would be
+ */
+function parseSamplePayload(type: string, template: unknown, scheduleId: string) {
+  return parseJobPayload(
+    type,
+    renderPayloadTemplate(template, { scheduledAt: new Date().toISOString(), scheduleId })
+  );
+}
+
+/**
+ * POST /schedules - Create a recurring job schedule
+ */
+schedulesRouter.post("/", async (req, res) => {
+  const result = CreateScheduleSchema.safeParse(req.body);
+
+  if (!result.success) {
+    res.status(400).json({
+      error: "Validation failed",
+      message: "Invalid request body",
+      details: result.error.format(),
+    });
+    return;
+  }
+
+  const { tenantId, type, payload, cronExpression, timezone, enabled, priority, retryPolicy } =
+    result.data;
+
+  if (!getProcessor(type)) {
+    res.status(400).json({
+      error: "Validation failed",
+      message: `Unknown job type "${type}"`,
+    });
+    return;
+  }
+
+  // The payload is a template: check what it renders to, so a bad one fails now, not every run
+  const id = randomUUID();
+  const sample = parseSamplePayload(type, payload, id);
+
+  if (!sample.success) {
+    res.status(422).json({
+      error: "Validation failed",
+      message: sample.message,
+      fields: sample.fields,
+    });
+    return;
+  }
+
+  const schedule = await prisma.recurringJob.create({
+    data: {
+      id,
+      tenantId,
+      type,
+      payload: payload as Prisma.InputJsonValue,
+      cronExpression,
+      timezone,
+      enabled,
+      priority,
+      retryPolicy,
+      nextRunAt: enabled ? getNextCronRun(cronExpression, timezone) : null,
+    },
+  });
+
+  console.log(`[API] Schedule ${schedule.id} created (${cronExpression} ${timezone})`);
+  res.status(201).json(toScheduleResponse(schedule));
+});
+
+/**
+ * GET /schedules - List schedules for a tenant
+ */
+schedulesRouter.get("/", async (req, res) => {
+  const result = ListSchedulesQuerySchema.safeParse({ ...req.query, tenantId: tenantOf(res) });
+
+  if (!result.success) {
+    res.status(400).json({
+      error: "Validation failed",
+      message: "Invalid query parameters",
+      details: result.error.format(),
+    });
+    return;
+  }
+
+  const { tenantId, limit, offset } = result.data;
+
+  const [schedules, total] = await Promise.all([
+    prisma.recurringJob.findMany({
+      where: { tenantId },
+      orderBy: { createdAt: "desc" },
+      take: limit,
+      skip: offset,
+    }),
+    prisma.recurringJob.count({ where: { tenantId } }),
+  ]);
+
+  res.json({ schedules: schedules.map(toScheduleResponse), total });
+});
+
+/**
+ * GET /schedules/:id - Get a single schedule
+ */
+schedulesRouter.get("/:id", async (req, res) => {
+  const params = ScheduleIdParamSchema.safeParse(req.params);
+
+  if (!params.success) {
+    res.status(400).json({
+      error: "Validation failed",
+      message: "Invalid schedule id",
+      details: params.error.format(),
+    });
+    return;
+  }
+
+  const schedule = await prisma.recurringJob.findFirst({
+    where: { id: params.data.id, tenantId: tenantOf(res) },
+  });
+
+  if (!schedule) {
+    res.status(404).json({ error: "Not found", message: "Schedule not found" });
+    return;
+  }
+
+  res.json(toScheduleResponse(schedule));
+});
+
+/**
+ * PATCH /schedules/:id - Update a schedule
+ * Changing the cron expression, timezone or enabled flag recomputes the next run
+ */
+schedulesRouter.patch("/:id", async (req, res) => {
+  const params = ScheduleIdParamSchema.safeParse(req.params);
+  const result = UpdateScheduleSchema.safeParse(req.body);
+
+  if (!params.success || !result.success) {
+    res.status(400).json({
+      error: "Validation failed",
+      message: params.success ? "Invalid request body" : "Invalid schedule id",
+      details: params.success ? result.error?.format() : params.error.format(),
+    });
+    return;
+  }
+
+  const existing = await prisma.recurringJob.findFirst({
+    where: { id: params.data.id, tenantId: tenantOf(res) },
+  });
+
+  if (!existing) {
+    res.status(404).json({ error: "Not found", message: "Schedule not found" });
+    return;
+  }
+
+  const { payload, cronExpression, timezone, enabled, priority, retryPolicy } = result.data;
+
+  if (payload !== undefined) {
+    const sample = parseSamplePayload(existing.type, payload, existing.id);
+
+    if (!sample.success) {
+      res.status(422).json({
+        error: "Validation failed",
+        message: sample.message,
+        fields: sample.fields,
+      });
+      return;
+    }
+  }
+
+  const next = {
+    cronExpression: cronExpression ?? existing.cronExpression,
+    timezone: timezone ?? existing.timezone,
+    enabled: enabled ?? existing.enabled,
+  };
+  const timingChanged =
+    next.cronExpression !== existing.cronExpression ||
+    next.timezone !== existing.timezone ||
+    next.enabled !== existing.enabled;
+
+  const schedule = await prisma.recurringJob.update({
+    where: { id: existing.id },
+    data: {
+      ...next,
+      ...(payload !== undefined && { payload: payload as Prisma.InputJsonValue }),
+      ...(priority !== undefined && { priority }),
+      ...(retryPolicy !== undefined && { retryPolicy }),
+      ...(timingChanged && {
+        nextRunAt: next.enabled ? getNextCronRun(next.cronExpression, next.timezone) : null,
+      }),
+    },
+  });
+
+  res.json(toScheduleResponse(schedule));
+});
+
+/**
+ * DELETE /schedules/:id - Delete a schedule (jobs it already created are kept)
+ */
+schedulesRouter.delete("/:id", async (req, res) => {
+  const params = ScheduleIdParamSchema.safeParse(req.params);
+
+  if (!params.success) {
+    res.status(400).json({
+      error: "Validation failed",
+      message: "Invalid schedule id",
+      details: params.error.format(),
+    });
+    return;
+  }
+
+  const deleted = await prisma.recurringJob.deleteMany({
+    where: { id: params.data.id, tenantId: tenantOf(res) },
+  });
+
+  if (deleted.count === 0) {
+    res.status(404).json({ error: "Not found", message: "Schedule not found" });
+    return;
+  }
+
+  res.status(204).end();
+});
@@ -0,0 +1,152 @@
+/**
+ * WebSocket Subscriptions
+ * A connection holds subscriptions by id, each optionally narrowed to one job, a set of job
+ * types and/or a set of statuses. Updates are routed per connection, tagged with the ids of
+ * the subscriptions they matched, so a page only gets the updates it asked for.
+ *
+ * A new subscription holds back its live updates until it goes live, so the updates it missed
+ * can be replayed first without gaps or reordering.
+ */
+import type { WebSocket } from "ws";
+import type { JobStatus, WSJobUpdate, WSSubscribe } from "@repo/types";
+
+export const MAX_SUBSCRIPTIONS_PER_CONNECTION = 50;
+
+/**
+ * A job update before it is tagged with the subscriptions it matched
+ */
+export type JobUpdate = Omit<WSJobUpdate, "subscriptionIds">;
+
+/**
+ * One subscription's filters (unset = any)
+ */
+export interface Subscription {
+  jobId?: string;
+  jobTypes?: Set<string>;
+  statuses?: Set<JobStatus>;
+  held: JobUpdate[] | null; // Live updates held back until the subscription goes live
+}
+
+/**
+ * What a job update is matched on
+ */
+export interface JobEvent {
+  jobId: string;
+  jobType: string;
+  status: JobStatus;
+}
+
+// connection -> subscriptionId -> filters
+type TenantSubscriptions = Map<WebSocket, Map<string, Subscription>>;
+
+// tenantId -> the tenant's subscriptions
+const subscriptions = new Map<string, TenantSubscriptions>();
+
+/**
+ * Add (or replace) a subscription of a connection; it gets no updates until goLive()
+ * Returns null if the connection already holds the maximum number of subscriptions.
+ */
+export function addSubscription(ws: WebSocket, message: WSSubscribe): Subscription | null {
+  const connections: TenantSubscriptions = subscriptions.get(message.tenantId) ?? new Map();
+  const own = connections.get(ws) ?? new Map<string, Subscription>();
+
+  const limitReached = countSubscriptions(ws) >= MAX_SUBSCRIPTIONS_PER_CONNECTION;
+  if (limitReached && !own.has(message.subscriptionId)) {
+    return null;
+  }
+
+  const subscription: Subscription = {
+    jobId: message.jobId,
+    jobTypes: message.jobTypes && new Set(message.jobTypes),
+    statuses: message.statuses && new Set(message.statuses),
+    held: [],
+  };
+  own.set(message.subscriptionId, subscription);
+  connections.set(ws, own);
+  subscriptions.set(message.tenantId, connections);
+  return subscription;
+}
+
+/**
+ * Start delivering live updates to a subscription
+ * Returns the updates held back since it was added, oldest first.
+ */
+export function goLive(subscription: Subscription): JobUpdate[] {
+  const held = subscription.held ?? [];
+  subscription.held = null;
+  return held;
+}
+
+/**
+ * Remove one subscription of a connection, or all of its subscriptions to a tenant
+ */
+export function removeSubscription(ws: WebSocket, tenantId: string, subscriptionId?: string) {
+  const connections = subscriptions.get(tenantId);
+  const own = connections?.get(ws);
+  if (!connections || !own) return;
+
+  if (subscriptionId === undefined) {
+    own.clear();
+  } else {
+    own.delete(subscriptionId);
+  }
+
+  if (own.size === 0) connections.delete(ws);
+  if (connections.size === 0) subscriptions.delete(tenantId);
+}
+
+/**
+ * Remove every subscription of a closed connection
+ */
+export function removeConnection(ws: WebSocket) {
+  for (const [tenantId, connections] of subscriptions) {
+    connections.delete(ws);
+    if (connections.size === 0) subscriptions.delete(tenantId);
+  }
+}
+
+function countSubscriptions(ws: WebSocket): number {
+  let count = 0;
+  for (const connections of subscriptions.values()) {
+    count += connections.get(ws)?.size ?? 0;
+  }
+  return count;
+}
+
+/**
+ * Whether a job update passes a subscription's filters
+ */
+export function matchesSubscription(subscription: Subscription, event: JobEvent): boolean {
+  return (
+    (subscription.jobId === undefined || subscription.jobId === event.jobId) &&
+    (subscription.jobTypes === undefined || subscription.jobTypes.has(event.jobType)) &&
+    (subscription.statuses === undefined || subscription.statuses.has(event.status))
+  );
+}
+
+/**
+ * Connections with a live subscription matching a tenant's job update, with the matching ids
+ * Matching subscriptions that aren't live yet hold on to the update (progress is dropped).
+ */
+export function matchSubscriptions(
+  tenantId: string,
+  event: JobEvent,
+  update?: JobUpdate
+): Map<WebSocket, string[]> {
+  const matched = new Map<WebSocket, string[]>();
+
+  subscriptions.get(tenantId)?.forEach((own, ws) => {
+    const ids: string[] = [];
+    own.forEach((subscription, id) => {
+      if (!matchesSubscription(subscription, event)) return;
+      if (subscription.held) {
+        if (update) subscription.held.push(update);
+      } else {
+        ids.push(id);
+      }
+    });
+    if (ids.length > 0) matched.set(ws, ids);
+  });
+
+  return matched;
+}
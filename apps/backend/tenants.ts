@@ -0,0 +1,152 @@
+/**
+ * Tenant Settings Routes
+ * Runtime-configurable per-tenant queue settings stored in Redis
+ * (fair scheduling weight, concurrency and rate limits). Operator key only, any tenant.
+ */
+import { Router } from "express";
+import {
+  getRedisClient,
+  getTenantWeight,
+  setTenantWeight,
+  clearTenantWeight,
+  getQueueLength,
+  getTenantLimits,
+  setTenantLimits,
+  clearTenantLimits,
+  getRunningJobCount,
+} from "@repo/redis";
+import { TenantIdParamSchema, TenantWeightSchema, TenantLimitsSchema } from "@repo/types";
+
+export const tenantsRouter = Router();
+
+const redis = getRedisClient();
+
+/**
+ * GET /tenants/:tenantId/weight - Get a tenant's fair scheduling weight
+ */
+tenantsRouter.get("/:tenantId/weight", async (req, res) => {
+  const params = TenantIdParamSchema.safeParse(req.params);
+
+  if (!params.success) {
+    res.status(400).json({
+      error: "Validation failed",
+      message: "Invalid tenant id",
+      details: params.error.format(),
+    });
+    return;
+  }
+
+  const { tenantId } = params.data;
+  const [weight, queued] = await Promise.all([
+    getTenantWeight(redis, tenantId),
+    getQueueLength(redis, { tenantId }),
+  ]);
+
+  res.json({ tenantId, weight, queued });
+});
+
+/**
+ * PUT /tenants/:tenantId/weight - Set how many jobs in a row a tenant is served
+ */
+tenantsRouter.put("/:tenantId/weight", async (req, res) => {
+  const params = TenantIdParamSchema.safeParse(req.params);
+  const result = TenantWeightSchema.safeParse(req.body);
+
+  if (!params.success || !result.success) {
+    res.status(400).json({
+      error: "Validation failed",
+      message: params.success ? "Invalid request body" : "Invalid tenant id",
+      details: params.success ? result.error?.format() : params.error.format(),
+    });
+    return;
+  }
+
+  await setTenantWeight(redis, params.data.tenantId, result.data.weight);
+  console.log(`[API] Tenant ${params.data.tenantId} weight → ${result.data.weight}`);
+
+  res.json({ tenantId: params.data.tenantId, weight: result.data.weight });
+});
+
+/**
+ * DELETE /tenants/:tenantId/weight - Reset a tenant to the default weight
+ */
+tenantsRouter.delete("/:tenantId/weight", async (req, res) => {
+  const params = TenantIdParamSchema.safeParse(req.params);
+
+  if (!params.success) {
+    res.status(400).json({
+      error: "Validation failed",
+      message: "Invalid tenant id",
+      details: params.error.format(),
+    });
+    return;
+  }
+
+  await clearTenantWeight(redis, params.data.tenantId);
+  res.status(204).end();
+});
+
+/**
+ * GET /tenants/:tenantId/limits - Get a tenant's concurrency and rate limits
+ */
+tenantsRouter.get("/:tenantId/limits", async (req, res) => {
+  const params = TenantIdParamSchema.safeParse(req.params);
+
+  if (!params.success) {
+    res.status(400).json({
+      error: "Validation failed",
+      message: "Invalid tenant id",
+      details: params.error.format(),
+    });
+    return;
+  }
+
+  const { tenantId } = params.data;
+  const [limits, running] = await Promise.all([
+    getTenantLimits(redis, tenantId),
+    getRunningJobCount(redis, tenantId),
+  ]);
+
+  res.json({ tenantId, limits, running });
+});
+
+/**
+ * PUT /tenants/:tenantId/limits - Replace a tenant's concurrency and rate limits
+ */
+tenantsRouter.put("/:tenantId/limits", async (req, res) => {
+  const params = TenantIdParamSchema.safeParse(req.params);
+  const result = TenantLimitsSchema.safeParse(req.body);
+
+  if (!params.success || !result.success) {
+    res.status(400).json({
+      error: "Validation failed",
+      message: params.success ? "Invalid request body" : "Invalid tenant id",
+      details: params.success ? result.error?.format() : params.error.format(),
+    });
+    return;
+  }
+
+  await setTenantLimits(redis, params.data.tenantId, result.data);
+  console.log(`[API] Tenant ${params.data.tenantId} limits updated`);
+
+  res.json({ tenantId: params.data.tenantId, limits: result.data });
+});
+
+/**
+ * DELETE /tenants/:tenantId/limits - Remove all limits for a tenant
+ */
+tenantsRouter.delete("/:tenantId/limits", async (req, res) => {
+  const params = TenantIdParamSchema.safeParse(req.params);
+
+  if (!params.success) {
+    res.status(400).json({
+      error: "Validation failed",
+      message: "Invalid tenant id",
+      details: params.error.format(),
+    });
+    return;
+  }
+
+  await clearTenantLimits(redis, params.data.tenantId);
+  res.status(204).end();
+});
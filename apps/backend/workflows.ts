@@ -0,0 +1,207 @@
+/**
+ * Workflow Routes
+ * Submit a DAG of jobs at once: jobs name their parents by key, wait (WAITING) until
+ * every parent has completed and receive the parents' outputs in `payload.parentOutputs`
+ */
+import { randomUUID } from "crypto";
+import { Router } from "express";
+import { prisma, type Prisma } from "@repo/db";
+import { getRedisClient, pushJobs, type QueuedJob } from "@repo/redis";
+import {
+  CreateWorkflowSchema,
+  WorkflowIdParamSchema,
+  JobStatus,
+  toFieldErrors,
+  type FieldError,
+  type WorkflowResponse,
+} from "@repo/types";
+import { parseJobPayload } from "@repo/processors";
+import { tenantOf } from "./auth.ts";
+
+export const workflowsRouter = Router();
+
+const redis = getRedisClient();
+
+/**
+ * Load a workflow's jobs with their parents' keys
+ */
+async function findWorkflow(
+  tenantId: string,
+  workflowId: string
+): Promise<WorkflowResponse | null> {
+  const jobs = await prisma.job.findMany({
+    where: { tenantId, workflowId },
+    orderBy: [{ createdAt: "asc" }, { workflowKey: "asc" }],
+    include: { dependencies: { include: { dependsOn: { select: { workflowKey: true } } } } },
+  });
+  if (jobs.length === 0) return null;
+
+  return {
+    workflowId,
+    tenantId: jobs[0]!.tenantId,
+    jobs: jobs.map((job) => ({
+      key: job.workflowKey ?? job.id,
+      jobId: job.id,
+      type: job.type,
+      status: job.status,
+      dependsOn: job.dependencies.map(
+        (dependency) => dependency.dependsOn.workflowKey ?? dependency.dependsOnId
+      ),
+      error: job.error,
+    })),
+  };
+}
+
+/**
+ * POST /workflows - Create a workflow
+ * Jobs without dependencies are queued right away; the rest wait for their parents.
+ */
+workflowsRouter.post("/", async (req, res) => {
+  const result = CreateWorkflowSchema.safeParse(req.body);
+
+  if (!result.success) {
+    res.status(400).json({
+      error: "Validation failed",
+      message: "Invalid request body",
+      details: result.error.format(),
+      fields: toFieldErrors(result.error),
+    });
+    return;
+  }
+
+  const { tenantId, jobs } = result.data;
+
+  // Check every payload against its job type's registered schema
+  const payloads: Record<string, unknown>[] = [];
+  const invalidKeys: string[] = [];
+  const fields: FieldError[] = [];
+
+  jobs.forEach((job, index) => {
+    const parsed = parseJobPayload(job.type, job.payload);
+    if (parsed.success) {
+      payloads.push(parsed.data);
+    } else {
+      invalidKeys.push(job.key);
+      fields.push(
+        ...parsed.fields.map((error) => ({ ...error, field: `jobs.${index}.${error.field}` }))
+      );
+    }
+  });
+
+  if (invalidKeys.length > 0) {
+    res.status(400).json({
+      error: "Validation failed",
+      message: `Invalid job(s): ${invalidKeys.join(", ")}`,
+      fields,
+    });
+    return;
+  }
+
+  const workflowId = randomUUID();
+  const jobIds = new Map(jobs.map((job) => [job.key, randomUUID()]));
+
+  const rows: Prisma.JobCreateManyInput[] = jobs.map((job, index) => ({
+    id: jobIds.get(job.key)!,
+    tenantId,
+    type: job.type,
+    payload: payloads[index] as Prisma.InputJsonValue,
+    status: job.dependsOn.length > 0 ? JobStatus.WAITING : JobStatus.PENDING,
+    priority: job.priority,
+    retryPolicy: job.retryPolicy,
+    timeoutMs: job.timeoutMs,
+    onParentFailure: job.onParentFailure,
+    workflowId,
+    workflowKey: job.key,
+  }));
+
+  const dependencies: Prisma.JobDependencyCreateManyInput[] = jobs.flatMap((job) =>
+    [...new Set(job.dependsOn)].map((parent) => ({
+      jobId: jobIds.get(job.key)!,
+      dependsOnId: jobIds.get(parent)!,
+    }))
+  );
+
+  const roots: QueuedJob[] = jobs
+    .filter((job) => job.dependsOn.length === 0)
+    .map((job) => ({ jobId: jobIds.get(job.key)!, tenantId, priority: job.priority }));
+
+  try {
+    await prisma.$transaction([
+      prisma.job.createMany({ data: rows }),
+      prisma.jobDependency.createMany({ data: dependencies }),
+    ]);
+  } catch (error) {
+    console.error("[Prisma Error]", error);
+    res.status(500).json({
+      error: "Database error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+    return;
+  }
+
+  try {
+    await pushJobs(redis, roots);
+  } catch (error) {
+    console.error("[Redis Error]", error);
+    // Nothing would ever queue the roots, so nothing would run: remove the workflow (its
+    // dependencies go with it). The workflow id is returned only if that fails.
+    const removed = await prisma.job.deleteMany({ where: { workflowId } }).then(
+      () => true,
+      (deleteError) => {
+        console.error("[Prisma Error] Failed to remove unqueued workflow:", deleteError);
+        return false;
+      }
+    );
+    res.status(500).json({
+      error: "Queue error",
+      message: removed
+        ? "Failed to queue the workflow; none of its jobs were created"
+        : "Failed to queue the workflow; its jobs were created but may not run",
+      ...(!removed && { workflowId }),
+    });
+    return;
+  }
+
+  console.log(
+    `[API] Workflow ${workflowId}: ${jobs.length} job(s), ${roots.length} queued immediately`
+  );
+
+  const response: WorkflowResponse = {
+    workflowId,
+    tenantId,
+    jobs: jobs.map((job) => ({
+      key: job.key,
+      jobId: jobIds.get(job.key)!,
+      type: job.type,
+      status: job.dependsOn.length > 0 ? JobStatus.WAITING : JobStatus.PENDING,
+      dependsOn: job.dependsOn,
+      error: null,
+    })),
+  };
+  res.status(201).json(response);
+});
+
+/**
+ * GET /workflows/:id - Get a workflow's jobs and their statuses
+ */
+workflowsRouter.get("/:id", async (req, res) => {
+  const params = WorkflowIdParamSchema.safeParse(req.params);
+
+  if (!params.success) {
+    res.status(400).json({
+      error: "Validation failed",
+      message: "Invalid workflow id",
+      details: params.error.format(),
+    });
+    return;
+  }
+
+  const workflow = await findWorkflow(tenantOf(res), params.data.id);
+
+  if (!workflow) {
+    res.status(404).json({ error: "Not found", message: "Workflow not found" });
+    return;
+  }
+
+  res.json(workflow);
+});
@@ -0,0 +1,28 @@
+/**
+ * /api/jobs/* - Proxy to the backend's /jobs routes with the dashboard's API key
+ * Behind the dashboard's login (see proxy.ts), like every route that uses the key.
+ */
+import { backendFetch } from "@/lib/backend";
+
+async function proxy(req: Request, { params }: { params: Promise<{ path?: string[] }> }) {
+  const { path = [] } = await params;
+  const { search } = new URL(req.url);
+  const subpath = path.map((segment) => `/${encodeURIComponent(segment)}`).join("");
+
+  const headers = new Headers({ "Content-Type": "application/json" });
+  const idempotencyKey = req.headers.get("Idempotency-Key");
+  if (idempotencyKey) headers.set("Idempotency-Key", idempotencyKey);
+
+  const res = await backendFetch(`/jobs${subpath}${search}`, {
+    method: req.method,
+    headers,
+    body: req.method === "GET" ? undefined : await req.text(),
+  });
+
+  return new Response(res.body, {
+    status: res.status,
+    headers: { "Content-Type": res.headers.get("Content-Type") ?? "application/json" },
+  });
+}
+
+export { proxy as GET, proxy as POST };
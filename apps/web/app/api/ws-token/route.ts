@@ -0,0 +1,9 @@
+/**
+ * POST /api/ws-token - Mint a short-lived WebSocket token for the browser
+ */
+import { backendFetch } from "@/lib/backend";
+
+export async function POST() {
+  const res = await backendFetch("/ws-tokens", { method: "POST" });
+  return Response.json(await res.json(), { status: res.status });
+}
@@ -4,6 +4,7 @@
  */
 import { useState, useEffect, FormEvent } from "react";
 import { useJobUpdates } from "@/app/hooks/useJobUpdates";
+import { useJobLogs } from "@/app/hooks/useJobLogs";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -20,14 +21,29 @@ interface Job {
     tenantId: string;
     type: string;
     payload: Record<string, unknown>;
-    status: "PENDING" | "RUNNING" | "COMPLETED" | "FAILED";
+    status: "PENDING" | "RUNNING" | "COMPLETED" | "FAILED" | "SCHEDULED" | "CANCELLED" | "WAITING";
+    priority: "HIGH" | "NORMAL" | "LOW";
     attempts: number;
     error: string | null;
+    nextRunAt: string | null;
+    output: unknown;
+    outputTruncated: boolean;
+    progress: number | null;
+    progressMessage: string | null;
     createdAt: string;
     updatedAt: string;
 }
 
+interface JobType {
+    type: string;
+    label: string;
+    description: string | null;
+    examplePayload: Record<string, unknown> | null;
+}
+
 const API_URL = "http://localhost:3000";
+// Proxied by app/api/jobs, which adds the API key on the server
+const JOBS_URL = "/api/jobs";
 const TENANT_ID = "tenant-1";
 
 const statusVariants = {
@@ -35,26 +51,53 @@ const statusVariants = {
     RUNNING: "bg-blue-500/20 text-blue-400 border-blue-500/30 animate-pulse",
     COMPLETED: "bg-green-500/20 text-green-400 border-green-500/30",
     FAILED: "bg-red-500/20 text-red-400 border-red-500/30",
+    SCHEDULED: "bg-purple-500/20 text-purple-400 border-purple-500/30",
+    CANCELLED: "bg-zinc-500/20 text-zinc-400 border-zinc-500/30",
+    WAITING: "bg-orange-500/20 text-orange-400 border-orange-500/30",
 };
 
+const logLevelColors = {
+    DEBUG: "text-zinc-500",
+    INFO: "text-zinc-300",
+    WARN: "text-yellow-400",
+    ERROR: "text-red-400",
+};
+
+const cancellableStatuses: Job["status"][] = ["PENDING", "SCHEDULED", "RUNNING", "WAITING"];
+
 export default function Dashboard() {
     const [jobs, setJobs] = useState<Job[]>([]);
     const [loading, setLoading] = useState(true);
     const [creating, setCreating] = useState(false);
+    const [jobTypes, setJobTypes] = useState<JobType[]>([]);
     const [jobType, setJobType] = useState<string>("sleep");
-    const { updates, isConnected } = useJobUpdates(TENANT_ID);
+    const [priority, setPriority] = useState<string>("NORMAL");
+    const { updates, progress, isConnected, resyncCount } = useJobUpdates(TENANT_ID);
+    const [logJobId, setLogJobId] = useState<string | null>(null);
+    const { logs, isTailing } = useJobLogs(logJobId);
 
     useEffect(() => {
         fetchJobs();
+        fetchJobTypes();
     }, []);
 
+    // Updates missed while disconnected couldn't be replayed - reload the list
+    useEffect(() => {
+        if (resyncCount > 0) fetchJobs();
+    }, [resyncCount]);
+
     useEffect(() => {
         const latestUpdate = updates[0];
         if (latestUpdate) {
             setJobs((prev) =>
                 prev.map((job) =>
                     job.id === latestUpdate.jobId
-                        ? { ...job, status: latestUpdate.status, error: latestUpdate.error }
+                        ? {
+                              ...job,
+                              status: latestUpdate.status,
+                              error: latestUpdate.error,
+                              output: latestUpdate.output ?? job.output,
+                          }
                         : job
                 )
             );
@@ -67,7 +110,7 @@ export default function Dashboard() {
 
     async function fetchJobs() {
         try {
-            const res = await fetch(`${API_URL}/jobs?tenantId=${TENANT_ID}`);
+            const res = await fetch(`${JOBS_URL}?tenantId=${TENANT_ID}`);
             const data = await res.json();
             setJobs(data.jobs || []);
         } catch (error) {
@@ -77,24 +120,32 @@ export default function Dashboard() {
         }
     }
 
+    async function fetchJobTypes() {
+        try {
+            const res = await fetch(`${API_URL}/job-types`);
+            const data = await res.json();
+            setJobTypes(data.jobTypes || []);
+        } catch (error) {
+            console.error("Failed to fetch job types:", error);
+        }
+    }
+
     async function createJob(e: FormEvent) {
         e.preventDefault();
         setCreating(true);
 
-        const payloads: Record<string, Record<string, unknown>> = {
-            sleep: { delayMs: 3000 },
-            email: { to: "user@example.com", subject: "Test Email" },
-            webhook: { url: "https://httpbin.org/post", method: "POST" },
-        };
+        // Sample jobs use each type's registered example payload
+        const examplePayload = jobTypes.find((t) => t.type === jobType)?.examplePayload;
 
         try {
-            const res = await fetch(`${API_URL}/jobs`, {
+            const res = await fetch(JOBS_URL, {
                 method: "POST",
                 headers: { "Content-Type": "application/json" },
                 body: JSON.stringify({
                     tenantId: TENANT_ID,
                     type: jobType,
-                    payload: payloads[jobType] || {},
+                    payload: examplePayload || {},
+                    priority,
                 }),
             });
             const data = await res.json();
@@ -107,6 +158,15 @@ export default function Dashboard() {
         }
     }
 
+    async function cancelJob(jobId: string) {
+        try {
+            await fetch(`${JOBS_URL}/${jobId}/cancel`, { method: "POST" });
+            fetchJobs();
+        } catch (error) {
+            console.error("Failed to cancel job:", error);
+        }
+    }
+
     return (
         <div className="min-h-screen bg-zinc-950 text-zinc-100 p-6">
             <div className="max-w-7xl mx-auto space-y-6">
@@ -139,9 +199,21 @@ export default function Dashboard() {
                                     <SelectValue placeholder="Select job type" />
                                 </SelectTrigger>
                                 <SelectContent className="bg-zinc-800 border-zinc-700">
-                                    <SelectItem value="sleep">Sleep (3s)</SelectItem>
-                                    <SelectItem value="email">Email</SelectItem>
-                                    <SelectItem value="webhook">Webhook</SelectItem>
+                                    {jobTypes.map((t) => (
+                                        <SelectItem key={t.type} value={t.type}>
+                                            {t.label}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            <Select value={priority} onValueChange={setPriority}>
+                                <SelectTrigger className="w-[160px] bg-zinc-800 border-zinc-700">
+                                    <SelectValue placeholder="Priority" />
+                                </SelectTrigger>
+                                <SelectContent className="bg-zinc-800 border-zinc-700">
+                                    <SelectItem value="HIGH">High priority</SelectItem>
+                                    <SelectItem value="NORMAL">Normal priority</SelectItem>
+                                    <SelectItem value="LOW">Low priority</SelectItem>
                                 </SelectContent>
                             </Select>
                             <Button
@@ -186,14 +258,54 @@ export default function Dashboard() {
                                                     <Badge className={statusVariants[job.status]}>{job.status}</Badge>
                                                 </div>
                                                 <div className="text-sm text-zinc-500 font-mono">
-                                                    {job.id.slice(0, 8)}... • Attempts: {job.attempts}
+                                                    {job.id.slice(0, 8)}... • {job.priority} • Attempts: {job.attempts}
                                                 </div>
                                                 {job.error && (
                                                     <div className="text-sm text-red-400">{job.error}</div>
                                                 )}
+                                                {job.status === "SCHEDULED" && job.nextRunAt && (
+                                                    <div className="text-sm text-purple-400">
+                                                        Scheduled for {new Date(job.nextRunAt).toLocaleString()}
+                                                    </div>
+                                                )}
+                                                {job.status === "RUNNING" && (
+                                                    <JobProgressBar
+                                                        percent={progress[job.id]?.percent ?? job.progress}
+                                                        message={progress[job.id]?.message ?? job.progressMessage}
+                                                    />
+                                                )}
+                                                {job.status === "COMPLETED" && job.output != null && (
+                                                    <div className="text-sm text-green-400 font-mono truncate max-w-md">
+                                                        Output: {JSON.stringify(job.output)}
+                                                        {job.outputTruncated && " (truncated)"}
+                                                    </div>
+                                                )}
+                                                {job.status === "PENDING" && job.nextRunAt && (
+                                                    <div className="text-sm text-yellow-400">
+                                                        Next attempt at {new Date(job.nextRunAt).toLocaleTimeString()}
+                                                    </div>
+                                                )}
                                             </div>
-                                            <div className="text-sm text-zinc-500">
+                                            <div className="flex flex-col items-end gap-2 text-sm text-zinc-500">
                                                 {new Date(job.createdAt).toLocaleTimeString()}
+                                                <Button
+                                                    variant="outline"
+                                                    size="sm"
+                                                    onClick={() => setLogJobId(job.id)}
+                                                    className="border-zinc-700"
+                                                >
+                                                    Logs
+                                                </Button>
+                                                {cancellableStatuses.includes(job.status) && (
+                                                    <Button
+                                                        variant="outline"
+                                                        size="sm"
+                                                        onClick={() => cancelJob(job.id)}
+                                                        className="border-zinc-700"
+                                                    >
+                                                        Cancel
+                                                    </Button>
+                                                )}
                                             </div>
                                         </div>
                                     ))}
@@ -223,8 +335,65 @@ export default function Dashboard() {
                             )}
                         </CardContent>
                     </Card>
+
+                    {/* Job Logs */}
+                    {logJobId && (
+                        <Card className="bg-zinc-900 border-zinc-800">
+                            <CardHeader className="flex flex-row items-center justify-between">
+                                <div>
+                                    <CardTitle>Logs</CardTitle>
+                                    <CardDescription>
+                                        Job {logJobId.slice(0, 8)}... {isTailing && "• live"}
+                                    </CardDescription>
+                                </div>
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => setLogJobId(null)}
+                                    className="border-zinc-700"
+                                >
+                                    Close
+                                </Button>
+                            </CardHeader>
+                            <CardContent>
+                                {logs.length === 0 ? (
+                                    <p className="text-zinc-500 text-center py-4">No log lines yet...</p>
+                                ) : (
+                                    <div className="space-y-1 max-h-64 overflow-y-auto font-mono text-xs">
+                                        {logs.map((log) => (
+                                            <div
+                                                key={`${log.replay}:${log.attempt}:${log.line}`}
+                                                className={logLevelColors[log.level]}
+                                            >
+                                                {new Date(log.timestamp).toLocaleTimeString()} #{log.attempt}{" "}
+                                                {log.level} {log.message}
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                            </CardContent>
+                        </Card>
+                    )}
                 </div>
             </div>
         </div>
     );
 }
+
+/**
+ * Progress bar for a running job (empty until the processor reports progress)
+ */
+function JobProgressBar({ percent, message }: { percent: number | null; message: string | null }) {
+    if (percent === null) return null;
+
+    return (
+        <div className="space-y-1 w-64">
+            <div className="h-1.5 rounded-full bg-zinc-700 overflow-hidden">
+                <div className="h-full bg-blue-500 transition-all" style={{ width: `${percent}%` }} />
+            </div>
+            <div className="text-xs text-blue-400">
+                {percent}%{message && ` • ${message}`}
+            </div>
+        </div>
+    );
+}
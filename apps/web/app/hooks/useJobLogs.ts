@@ -0,0 +1,97 @@
+"use client";
+/**
+ * useJobLogs - Stored log lines of a job, then new lines live over WebSocket
+ */
+import { useEffect, useState } from "react";
+import { fetchWsToken, keepAuthenticated } from "./wsToken";
+
+export interface JobLogLine {
+  replay: number;
+  attempt: number;
+  line: number;
+  level: "DEBUG" | "INFO" | "WARN" | "ERROR";
+  message: string;
+  timestamp: string;
+}
+
+interface UseJobLogsReturn {
+  logs: JobLogLine[];
+  isTailing: boolean;
+}
+
+const JOBS_URL = "/api/jobs"; // Proxied by app/api/jobs, which adds the API key
+
+const lineKey = (line: JobLogLine) => `${line.replay}:${line.attempt}:${line.line}`;
+
+/**
+ * Add lines that aren't there yet, keeping attempt and line order
+ */
+function mergeLines(current: JobLogLine[], incoming: JobLogLine[]): JobLogLine[] {
+  const seen = new Set(current.map(lineKey));
+  const merged = [...current, ...incoming.filter((line) => !seen.has(lineKey(line)))];
+  return merged.sort(
+    (a, b) => a.replay - b.replay || a.attempt - b.attempt || a.line - b.line
+  );
+}
+
+export function useJobLogs(jobId: string | null): UseJobLogsReturn {
+  const [logs, setLogs] = useState<JobLogLine[]>([]);
+  const [isTailing, setIsTailing] = useState(false);
+
+  useEffect(() => {
+    setLogs([]);
+    if (!jobId) return;
+
+    const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+    let ws: WebSocket | null = null;
+    let stopRefresh: (() => void) | null = null;
+    let stopped = false;
+
+    fetchWsToken()
+      .then((wsToken) => {
+        if (stopped) return;
+        const socket = new WebSocket(`${protocol}//localhost:3000/ws`);
+        ws = socket;
+
+        // Subscribe first so no line is missed between the fetch and the subscription
+        socket.onopen = () => {
+          setIsTailing(true);
+          stopRefresh = keepAuthenticated(socket, wsToken);
+          socket.send(JSON.stringify({ type: "SUBSCRIBE_LOGS", jobId }));
+
+          fetch(`${JOBS_URL}/${jobId}/logs?limit=1000`)
+            .then((res) => res.json())
+            .then((data) => setLogs((prev) => mergeLines(prev, data.logs || [])))
+            .catch(() => console.error("[Logs] Failed to fetch logs"));
+        };
+
+        socket.onmessage = (event) => {
+          try {
+            const data = JSON.parse(event.data);
+            if (data.type === "JOB_LOG" && data.jobId === jobId) {
+              setLogs((prev) => mergeLines(prev, data.lines));
+            }
+          } catch {
+            console.error("[Logs] Failed to parse message");
+          }
+        };
+
+        socket.onclose = () => {
+          setIsTailing(false);
+          stopRefresh?.();
+        };
+      })
+      .catch((error) => console.error("[Logs]", error));
+
+    return () => {
+      stopped = true;
+      stopRefresh?.();
+      if (ws?.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify({ type: "UNSUBSCRIBE_LOGS", jobId }));
+      }
+      ws?.close();
+    };
+  }, [jobId]);
+
+  return { logs, isTailing };
+}
@@ -1,66 +1,151 @@
 "use client";
 /**
  * useJobUpdates - WebSocket hook for real-time job updates
+ * Reconnects after a drop and resumes from the last event seen, so no update is missed.
+ * Authenticates with short-lived tokens from the dashboard's server, never an API key.
  */
 import { useEffect, useState, useCallback } from "react";
+import { fetchWsToken, keepAuthenticated, type WsToken } from "./wsToken";
 
 export interface JobUpdate {
   type: "JOB_UPDATE";
   jobId: string;
-  status: "PENDING" | "RUNNING" | "COMPLETED" | "FAILED";
+  jobType: string;
+  eventId: string;
+  subscriptionIds: string[];
+  status: "PENDING" | "RUNNING" | "COMPLETED" | "FAILED" | "SCHEDULED" | "CANCELLED" | "WAITING";
   error: string | null;
+  output?: unknown;
+}
+
+export interface JobProgress {
+  percent: number;
+  message: string | null;
 }
 
 interface UseJobUpdatesReturn {
   updates: JobUpdate[];
+  progress: Record<string, JobProgress>; // Latest progress per job ID
+
   isConnected: boolean;
+  resyncCount: number; // Bumped when missed updates couldn't be replayed (reload the jobs)
   clearUpdates: () => void;
 }
 
+const RECONNECT_DELAY_MS = 2000;
+
+/**
+ * The newer of two event ids ("<ms>-<seq>")
+ */
+function newerEventId(current: string | null, next: string | null): string | null {
+  if (!current || !next) return next ?? current;
+  const [currentMs = 0, currentSeq = 0] = current.split("-").map(Number);
+  const [nextMs = 0, nextSeq = 0] = next.split("-").map(Number);
+  return (nextMs - currentMs || nextSeq - currentSeq) > 0 ? next : current;
+}
+
 export function useJobUpdates(tenantId: string): UseJobUpdatesReturn {
   const [updates, setUpdates] = useState<JobUpdate[]>([]);
+  const [progress, setProgress] = useState<Record<string, JobProgress>>({});
   const [isConnected, setIsConnected] = useState(false);
+  const [resyncCount, setResyncCount] = useState(0);
 
   useEffect(() => {
     if (!tenantId) return;
 
     const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
     const wsUrl = `${protocol}//localhost:3000/ws`;
-    const ws = new WebSocket(wsUrl);
+    let ws: WebSocket | null = null;
+    let lastEventId: string | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let stopRefresh: (() => void) | null = null;
+    let stopped = false;
 
-    ws.onopen = () => {
-      setIsConnected(true);
-      ws.send(JSON.stringify({ type: "SUBSCRIBE", tenantId }));
-      console.log("[WS] Connected and subscribed to", tenantId);
-    };
+    function scheduleReconnect() {
+      if (!stopped) reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+    }
 
-    ws.onmessage = (event) => {
-      try {
-        const data = JSON.parse(event.data);
-        if (data.type === "JOB_UPDATE") {
-          setUpdates((prev) => [data, ...prev]);
+    // Every connection (and reconnection) gets a fresh short-lived token
+    function connect() {
+      fetchWsToken()
+        .then((wsToken) => {
+          if (!stopped) open(wsToken);
+        })
+        .catch((error) => {
+          console.error("[WS]", error);
+          scheduleReconnect();
+        });
+    }
+
+    function open(wsToken: WsToken) {
+      const socket = new WebSocket(wsUrl);
+      ws = socket;
+
+      socket.onopen = () => {
+        setIsConnected(true);
+        // The server handles messages in order, so AUTH is done before SUBSCRIBE.
+        // After a reconnect, lastEventId asks for the updates missed in between.
+        stopRefresh = keepAuthenticated(socket, wsToken);
+        socket.send(
+          JSON.stringify({ type: "SUBSCRIBE", tenantId, ...(lastEventId && { lastEventId }) })
+        );
+        console.log("[WS] Connected and subscribed to", tenantId);
+      };
+
+      socket.onmessage = (event) => {
+        try {
+          const data = JSON.parse(event.data);
+          if (data.type === "JOB_UPDATE") {
+            lastEventId = newerEventId(lastEventId, data.eventId);
+            setUpdates((prev) => [data, ...prev]);
+          }
+          if (data.type === "JOB_PROGRESS") {
+            setProgress((prev) => ({
+              ...prev,
+              [data.jobId]: { percent: data.percent, message: data.message ?? null },
+            }));
+          }
+          if (data.type === "SUBSCRIBED") {
+            lastEventId = newerEventId(lastEventId, data.lastEventId);
+          }
+          if (data.type === "RESYNC_REQUIRED") {
+            console.warn("[WS] Missed updates can't be replayed; reloading");
+            setResyncCount((count) => count + 1);
+          }
+          if (data.type === "ERROR") {
+            console.error(`[WS] ${data.code}: ${data.message}`);
+          }
+        } catch {
+          console.error("[WS] Failed to parse message");
         }
-      } catch {
-        console.error("[WS] Failed to parse message");
-      }
-    };
+      };
 
-    ws.onclose = () => {
-      setIsConnected(false);
-      console.log("[WS] Disconnected");
-    };
+      socket.onclose = () => {
+        setIsConnected(false);
+        stopRefresh?.();
+        console.log("[WS] Disconnected");
+        scheduleReconnect();
+      };
 
-    ws.onerror = (error) => {
-      console.error("[WS] Error:", error);
-    };
+      socket.onerror = (error) => {
+        console.error("[WS] Error:", error);
+      };
+    }
+
+    connect();
 
     return () => {
-      ws.send(JSON.stringify({ type: "UNSUBSCRIBE", tenantId }));
-      ws.close();
+      stopped = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      stopRefresh?.();
+      if (ws?.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify({ type: "UNSUBSCRIBE", tenantId }));
+      }
+      ws?.close();
     };
   }, [tenantId]);
 
   const clearUpdates = useCallback(() => setUpdates([]), []);
 
-  return { updates, isConnected, clearUpdates };
+  return { updates, progress, isConnected, resyncCount, clearUpdates };
 }
@@ -0,0 +1,48 @@
+/**
+ * Short-lived WebSocket tokens, minted by the dashboard's server (see app/api/ws-token)
+ */
+
+export interface WsToken {
+  token: string;
+  expiresAt: string;
+}
+
+const REFRESH_MARGIN_MS = 30_000; // A fresh token is sent this long before the current one expires
+
+/**
+ * Get a new WebSocket token
+ */
+export async function fetchWsToken(): Promise<WsToken> {
+  const res = await fetch("/api/ws-token", { method: "POST" });
+  if (!res.ok) throw new Error(`Failed to get a WebSocket token (${res.status})`);
+  return res.json();
+}
+
+/**
+ * Authenticate an open WebSocket, and again with a fresh token before each one expires
+ * Returns a function that stops refreshing (call it when the socket closes).
+ */
+export function keepAuthenticated(ws: WebSocket, first: WsToken): () => void {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let stopped = false;
+
+  function authenticate({ token, expiresAt }: WsToken) {
+    ws.send(JSON.stringify({ type: "AUTH", token }));
+
+    const delay = Math.max(new Date(expiresAt).getTime() - Date.now() - REFRESH_MARGIN_MS, 0);
+    timer = setTimeout(() => {
+      fetchWsToken()
+        .then((next) => {
+          if (!stopped && ws.readyState === WebSocket.OPEN) authenticate(next);
+        })
+        .catch((error) => console.error("[WS] Failed to refresh token:", error));
+    }, delay);
+  }
+
+  authenticate(first);
+
+  return () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+  };
+}
@@ -0,0 +1,15 @@
+/**
+ * Backend API access for route handlers
+ * The dashboard's API key is only read on the server, so it never reaches the browser.
+ */
+const API_URL = process.env.API_URL ?? "http://localhost:3000";
+const API_KEY = process.env.API_KEY ?? "";
+
+/**
+ * Call the backend API with the dashboard's API key
+ */
+export function backendFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers);
+  headers.set("Authorization", `Bearer ${API_KEY}`);
+  return fetch(`${API_URL}${path}`, { ...init, headers, cache: "no-store" });
+}
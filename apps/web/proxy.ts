@@ -0,0 +1,51 @@
+/**
+ * Dashboard Authentication
+ * HTTP Basic auth (any user name, password DASHBOARD_PASSWORD) in front of every page and
+ * /api route: those routes call the backend with the dashboard's API key.
+ * Without DASHBOARD_PASSWORD the dashboard is only open in development.
+ */
+import { createHash, timingSafeEqual } from "crypto";
+import { NextResponse, type NextRequest } from "next/server";
+
+function sha256(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+// Compared as hashes, so lengths match and the comparison takes constant time
+const PASSWORD_HASH = process.env.DASHBOARD_PASSWORD
+  ? sha256(process.env.DASHBOARD_PASSWORD)
+  : null;
+
+/**
+ * Read the password from `Authorization: Basic <base64 user:password>`
+ */
+function readPassword(req: NextRequest): string | null {
+  const authorization = req.headers.get("Authorization");
+  if (!authorization?.startsWith("Basic ")) return null;
+
+  const credentials = Buffer.from(authorization.slice("Basic ".length), "base64").toString();
+  const separator = credentials.indexOf(":");
+  return separator === -1 ? null : credentials.slice(separator + 1);
+}
+
+export function proxy(req: NextRequest) {
+  if (!PASSWORD_HASH) {
+    if (process.env.NODE_ENV !== "production") return NextResponse.next();
+    return new NextResponse("Set DASHBOARD_PASSWORD to use the dashboard", { status: 503 });
+  }
+
+  const password = readPassword(req);
+  if (password !== null && timingSafeEqual(sha256(password), PASSWORD_HASH)) {
+    return NextResponse.next();
+  }
+
+  return new NextResponse("Authentication required", {
+    status: 401,
+    headers: { "WWW-Authenticate": 'Basic realm="Pipeyard dashboard"' },
+  });
+}
+
+export const config = {
+  // Everything but static assets
+  matcher: ["/((?!_next/static|_next/image|favicon.ico).*)"],
+};
@@ -0,0 +1,67 @@
+/**
+ * Job Attempt History
+ * Records one JobAttempt row per processing attempt: when and where it ran,
+ * how long it took, and how it ended.
+ */
+import { prisma, type AttemptOutcome } from "@repo/db";
+
+/**
+ * An attempt that has started
+ */
+export interface StartedAttempt {
+  jobId: string;
+  attempt: number;
+  replay: number; // The job's replayCount - attempt numbers restart after a replay
+  startedAt: Date;
+}
+
+/**
+ * Record the start of several attempts in one insert
+ */
+export async function startAttempts(workerId: string, attempts: StartedAttempt[]): Promise<void> {
+  if (attempts.length === 0) return;
+
+  // skipDuplicates: a requeued job may briefly be picked up twice for the same attempt
+  await prisma.jobAttempt.createMany({
+    data: attempts.map((attempt) => ({ ...attempt, workerId })),
+    skipDuplicates: true,
+  });
+}
+
+/**
+ * Record how an attempt ended
+ */
+export async function finishAttempt(
+  { jobId, attempt, replay, startedAt }: StartedAttempt,
+  outcome: AttemptOutcome,
+  failure: { error?: string; stack?: string } = {}
+): Promise<void> {
+  const finishedAt = new Date();
+
+  await prisma.jobAttempt.updateMany({
+    where: { jobId, replay, attempt },
+    data: {
+      finishedAt,
+      durationMs: finishedAt.getTime() - startedAt.getTime(),
+      outcome,
+      error: failure.error ?? null,
+      stack: failure.stack ?? null,
+    },
+  });
+}
+
+/**
+ * Close attempts left open by a worker that stopped heartbeating
+ */
+export async function abandonOpenAttempts(jobIds: string[]): Promise<void> {
+  if (jobIds.length === 0) return;
+
+  await prisma.jobAttempt.updateMany({
+    where: { jobId: { in: jobIds }, finishedAt: null },
+    data: {
+      finishedAt: new Date(),
+      outcome: "ABANDONED",
+      error: "Worker stopped heartbeating",
+    },
+  });
+}
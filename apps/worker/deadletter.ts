@@ -0,0 +1,57 @@
+/**
+ * Dead-Letter Queue
+ * Permanently failed jobs get a DeadLetter entry (per tenant and type) so they can be
+ * inspected by error signature and replayed through the API.
+ */
+import { prisma } from "@repo/db";
+
+const MAX_SIGNATURE_LENGTH = 200;
+
+/**
+ * Mask the variable parts of an error message so similar failures group together
+ * e.g. "SMTP rejected recipient a@b.com" → "SMTP rejected recipient <email>"
+ * Short numbers are kept: "HTTP 503" and "HTTP 404" are different failures.
+ */
+export function errorSignature(error: string): string {
+  return error
+    .replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, "<id>")
+    .replace(/\bhttps?:\/\/\S+/g, "<url>")
+    .replace(/[^\s@]+@[^\s@]+\.[^\s@]+/g, "<email>")
+    .replace(/\b(0x)?[0-9a-f]{16,}\b/gi, "<hex>")
+    .replace(/\d{4,}/g, "<n>")
+    .trim()
+    .slice(0, MAX_SIGNATURE_LENGTH);
+}
+
+/**
+ * Remove a job's dead-letter entry
+ */
+export async function removeDeadLetter(jobId: string): Promise<void> {
+  await prisma.deadLetter.deleteMany({ where: { jobId } });
+}
+
+/**
+ * Add (or refresh) a job's dead-letter entry
+ */
+export async function moveToDeadLetter(entry: {
+  jobId: string;
+  tenantId: string;
+  type: string;
+  attempts: number;
+  error: string;
+}): Promise<void> {
+  const data = {
+    tenantId: entry.tenantId,
+    type: entry.type,
+    attempts: entry.attempts,
+    error: entry.error,
+    errorSignature: errorSignature(entry.error),
+    failedAt: new Date(),
+  };
+
+  await prisma.deadLetter.upsert({
+    where: { jobId: entry.jobId },
+    create: { jobId: entry.jobId, ...data },
+    update: data,
+  });
+}
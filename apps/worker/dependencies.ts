@@ -0,0 +1,153 @@
+/**
+ * Job Dependencies
+ * WAITING jobs are released once every parent has completed (with the parents' outputs
+ * added to their payload), or failed / cancelled per their onParentFailure policy when
+ * a parent fails or is cancelled. A periodic sweep settles anything a crash or an API
+ * cancellation left behind, including releases whose queue push failed.
+ */
+import { prisma, Prisma, type Job } from "@repo/db";
+import { pushJob, publishJobUpdate, type Redis } from "@repo/redis";
+import { withParentOutputs } from "@repo/types";
+
+const SWEEP_INTERVAL_MS = 10_000; // How often WAITING jobs with settled parents are re-checked
+const SWEEP_BATCH_SIZE = 500;
+
+/**
+ * Settle one WAITING job if its parents allow it
+ * Returns the job's new status, or null if it is still waiting (or was settled elsewhere).
+ */
+async function settleJob(redis: Redis, jobId: string): Promise<Job["status"] | null> {
+  const job = await prisma.job.findUnique({
+    where: { id: jobId },
+    include: {
+      dependencies: {
+        include: {
+          dependsOn: { select: { id: true, status: true, workflowKey: true, output: true } },
+        },
+      },
+    },
+  });
+  if (!job || job.status !== "WAITING") return null;
+
+  const parents = job.dependencies.map((dependency) => dependency.dependsOn);
+  const broken = parents.find(
+    (parent) => parent.status === "FAILED" || parent.status === "CANCELLED"
+  );
+
+  if (broken) {
+    const status = job.onParentFailure === "CANCEL" ? "CANCELLED" : "FAILED";
+    const reason = broken.status === "FAILED" ? "failed" : "was cancelled";
+    const error = `Parent job ${broken.id} ${reason}`;
+
+    const { count } = await prisma.job.updateMany({
+      where: { id: job.id, status: "WAITING" },
+      data: { status, error },
+    });
+    if (count === 0) return null;
+
+    await publishJobUpdate(redis, {
+      tenantId: job.tenantId,
+      jobId: job.id,
+      jobType: job.type,
+      status,
+      error,
+    });
+    console.log(`[Dependencies] Job ${job.id} ${status} (${error})`);
+    return status;
+  }
+
+  if (parents.some((parent) => parent.status !== "COMPLETED")) return null;
+
+  const { count } = await prisma.job.updateMany({
+    where: { id: job.id, status: "WAITING" },
+    data: {
+      status: "PENDING",
+      payload: withParentOutputs(job.payload, parents) as Prisma.InputJsonValue,
+    },
+  });
+  if (count === 0) return null;
+
+  try {
+    await pushJob(redis, job.id, { tenantId: job.tenantId, priority: job.priority });
+  } catch (error) {
+    // Back to WAITING (with its own payload), so the sweep releases it again
+    await prisma.job.updateMany({
+      where: { id: job.id, status: "PENDING" },
+      data: { status: "WAITING", payload: job.payload as Prisma.InputJsonValue },
+    });
+    throw error;
+  }
+  await publishJobUpdate(redis, {
+    tenantId: job.tenantId,
+    jobId: job.id,
+    jobType: job.type,
+    status: "PENDING",
+  });
+  console.log(`[Dependencies] Job ${job.id} released → PENDING`);
+  return "PENDING";
+}
+
+/**
+ * Settle the WAITING dependents of jobs that just finished (completed, failed or cancelled).
+ * Dependents that fail or are cancelled in turn settle their own dependents.
+ */
+export async function settleDependents(redis: Redis, parentIds: string[]): Promise<void> {
+  let pending = parentIds;
+
+  while (pending.length > 0) {
+    const dependents = await prisma.jobDependency.findMany({
+      where: { dependsOnId: { in: pending }, job: { status: "WAITING" } },
+      select: { jobId: true },
+      distinct: ["jobId"],
+    });
+
+    const cascaded: string[] = [];
+    for (const { jobId } of dependents) {
+      const status = await settleJob(redis, jobId);
+      if (status === "FAILED" || status === "CANCELLED") cascaded.push(jobId);
+    }
+    pending = cascaded;
+  }
+}
+
+/**
+ * Settle WAITING jobs with at least one finished parent
+ * Pages through them by id, so jobs still waiting on other parents don't hide the rest.
+ */
+async function sweep(redis: Redis): Promise<void> {
+  let cursor: string | undefined;
+
+  while (true) {
+    const jobs = await prisma.job.findMany({
+      where: {
+        status: "WAITING",
+        dependencies: {
+          some: { dependsOn: { status: { in: ["COMPLETED", "FAILED", "CANCELLED"] } } },
+        },
+        ...(cursor && { id: { gt: cursor } }),
+      },
+      select: { id: true },
+      orderBy: { id: "asc" },
+      take: SWEEP_BATCH_SIZE,
+    });
+    if (jobs.length === 0) return;
+
+    const cascaded: string[] = [];
+    for (const { id } of jobs) {
+      const status = await settleJob(redis, id);
+      if (status === "FAILED" || status === "CANCELLED") cascaded.push(id);
+    }
+    await settleDependents(redis, cascaded);
+
+    cursor = jobs[jobs.length - 1]!.id;
+  }
+}
+
+/**
+ * Start the dependency sweep loop
+ */
+export function startDependencySweep(redis: Redis): void {
+  setInterval(() => {
+    sweep(redis).catch((error) => console.error("[Dependencies] Sweep error:", error));
+  }, SWEEP_INTERVAL_MS);
+}
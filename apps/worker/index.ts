@@ -2,132 +2,597 @@
  * Worker - Batch Job Processor
  *
  * Features:
- * - Polls Redis queue for jobs
- * - Processes jobs with retry logic
- * - Updates job status in database
+ * - Polls Redis queue for jobs in batches (reliable pop with acknowledgement)
+ * - Processes several jobs concurrently, up to a configurable limit
+ * - Hands batch-capable job types to their batch handler in one call
+ * - Aborts running jobs when they are cancelled or run past their timeout
+ * - Processes jobs with retry policies (backoff via the delayed queue)
+ * - Moves permanently failed jobs to the dead-letter queue
+ * - Releases WAITING jobs when their parent jobs complete (or fails / cancels them)
+ * - Enforces per-tenant concurrency and rate limits
+ * - Requeues jobs left in flight by crashed workers
+ * - Runs the scheduler for delayed and scheduled jobs
+ * - Fires recurring (cron) schedules when elected leader
+ * - Updates job status in database (batched writes)
+ * - Records every attempt (worker, timing, outcome, error) for debugging
+ * - Publishes throttled progress reported by processors
+ * - Stores each job's log lines and publishes them for live tailing
  * - Publishes status updates via Redis Pub/Sub
  */
-import { prisma } from "@repo/db";
+import { hostname } from "os";
+import { prisma, type AttemptOutcome, type Job } from "@repo/db";
 import {
   getRedisClient,
   popJob,
-  publishJobUpdate,
-  type JobUpdateMessage,
+  popJobs,
+  ackJob,
+  extendJobVisibility,
+  reapExpiredJobs,
+  readLegacyQueue,
+  moveLegacyQueuedJobs,
+  scheduleJob,
+  getTenantLimits,
+  admitJob,
+  renewConcurrencySlot,
+  releaseConcurrencySlot,
+  publishJobUpdates,
+  subscribeToJobCancels,
+  type TenantLimits,
 } from "@repo/redis";
-import { processJob } from "./processor.ts";
+import type { RetryPolicy } from "@repo/types";
+import {
+  getBatchProcessor,
+  processJob,
+  processJobBatch,
+  type BatchHandler,
+  type ProcessContext,
+  type ProcessResult,
+} from "./processor.ts";
+import { computeRetryDelay, resolveRetryPolicy } from "./retry.ts";
+import { resolveTimeout, startDeadline, timedOutResult } from "./timeouts.ts";
+import { startScheduler } from "./scheduler.ts";
+import { startRecurringScheduler } from "./recurring.ts";
+import { settleDependents, startDependencySweep } from "./dependencies.ts";
+import {
+  abandonOpenAttempts,
+  finishAttempt,
+  startAttempts,
+  type StartedAttempt,
+} from "./attempts.ts";
+import { moveToDeadLetter, removeDeadLetter } from "./deadletter.ts";
+import { outputColumns, toStoredOutput } from "./output.ts";
+import { createProgressReporter } from "./progress.ts";
+import { createJobLogger } from "./logs.ts";
+import { flushJobStatuses, initStatusWriter, writeJobStatus, writeJobStatuses } from "./status.ts";
 
 // Configuration
-const POLL_INTERVAL_MS = 1000; // How often to check for jobs
-const MAX_ATTEMPTS = 3; // Maximum retry attempts
-const BATCH_SIZE = 5; // Jobs to process concurrently (future enhancement)
+const POLL_INTERVAL_MS = 1000; // How long an idle worker waits for a job before checking again
+const BATCH_SIZE = Number(process.env.WORKER_BATCH_SIZE) || 10; // Max jobs pulled per pop
+const CONCURRENCY = Number(process.env.WORKER_CONCURRENCY) || 10; // Max jobs in flight at once
+const VISIBILITY_TIMEOUT_MS = 60_000; // How long a job may go without a heartbeat
+const HEARTBEAT_INTERVAL_MS = VISIBILITY_TIMEOUT_MS / 3; // How often in-flight jobs are extended
+const REAPER_INTERVAL_MS = 15_000; // How often expired in-flight jobs are requeued
+const ANTI_STARVATION_INTERVAL = 10; // Every Nth pop serves the lowest priority with work first
+const LIMIT_RETRY_MS = 1000; // Wait before retrying a job deferred by a tenant concurrency limit
+const LEGACY_DRAIN_BATCH_SIZE = 500; // IDs moved per round when draining the legacy queue
+
+const REDIS_URL = process.env.REDIS_URL || "redis://localhost:6379";
+
+// Identifies this worker's processing list in Redis
+const WORKER_ID = process.env.WORKER_ID || `${hostname()}-${process.pid}`;
 
 const redis = getRedisClient();
+initStatusWriter(redis);
+
+/**
+ * A popped job this worker hasn't acknowledged yet
+ */
+interface InFlightEntry {
+  tenantId?: string;
+  holdsSlot: boolean; // Holds a tenant concurrency slot
+  controller: AbortController; // Aborted when the job is cancelled
+}
 
 /**
- * Process a single job with full lifecycle management
+ * A job that passed its checks and tenant limits and is ready to run
  */
-async function processJobWithLifecycle(jobId: string): Promise<void> {
-  console.log(`\n[Worker] Processing job: ${jobId}`);
+interface AdmittedJob {
+  job: Job;
+  retryPolicy: RetryPolicy;
+  signal: AbortSignal;
+}
 
-  // 1. Fetch job from database
-  const job = await prisma.job.findUnique({ where: { id: jobId } });
+const inFlight = new Map<string, InFlightEntry>();
+let onSlotFreed: (() => void) | null = null;
 
-  if (!job) {
-    console.error(`[Worker] Job not found: ${jobId}`);
-    return;
+/**
+ * Resolve once an in-flight job finishes
+ */
+function waitForFreeSlot(): Promise<void> {
+  return new Promise((resolve) => {
+    onSlotFreed = resolve;
+  });
+}
+
+/**
+ * Stop tracking a job and wake the main loop if it is waiting for a slot
+ */
+function freeWorkerSlot(jobId: string): void {
+  inFlight.delete(jobId);
+  onSlotFreed?.();
+  onSlotFreed = null;
+}
+
+/**
+ * Release a finished job: free its tenant slot, acknowledge it and free its worker slot
+ */
+async function finishJob(jobId: string): Promise<void> {
+  const entry = inFlight.get(jobId);
+
+  try {
+    if (entry?.holdsSlot && entry.tenantId) {
+      await releaseConcurrencySlot(redis, entry.tenantId, jobId);
+    }
+    await ackJob(redis, WORKER_ID, jobId);
+  } finally {
+    freeWorkerSlot(jobId);
   }
+}
 
-  // 2. Check if already completed or max attempts reached
-  if (job.status === "COMPLETED") {
-    console.log(`[Worker] Job already completed: ${jobId}`);
-    return;
+/**
+ * Keep every in-flight job visible to this worker (and its tenant slot held)
+ */
+async function heartbeatInFlightJobs(): Promise<void> {
+  await Promise.all(
+    [...inFlight].map(async ([jobId, entry]) => {
+      try {
+        await extendJobVisibility(redis, WORKER_ID, jobId, VISIBILITY_TIMEOUT_MS);
+        if (entry.holdsSlot && entry.tenantId) {
+          await renewConcurrencySlot(redis, entry.tenantId, jobId, VISIBILITY_TIMEOUT_MS);
+        }
+      } catch (error) {
+        console.error(`[Worker] Heartbeat failed for ${jobId}:`, error);
+      }
+    })
+  );
+}
+
+/**
+ * Check a job and its tenant's limits before running it
+ * Returns null when the job shouldn't run now (already done, out of attempts or deferred).
+ */
+async function admitFetchedJob(
+  job: Job,
+  entry: InFlightEntry,
+  getLimits: (tenantId: string) => Promise<TenantLimits>
+): Promise<AdmittedJob | null> {
+  const jobId = job.id;
+
+  // Check if already completed, cancelled, still waiting on parents or max attempts reached
+  if (job.status === "COMPLETED" || job.status === "CANCELLED" || job.status === "WAITING") {
+    console.log(`[Worker] Job already ${job.status.toLowerCase()}: ${jobId}`);
+    return null;
   }
 
-  if (job.attempts >= MAX_ATTEMPTS) {
+  const retryPolicy = resolveRetryPolicy(job.type, job.retryPolicy);
+
+  if (job.attempts >= retryPolicy.maxAttempts) {
     console.log(`[Worker] Max attempts reached for: ${jobId}`);
-    await markJobFailed(jobId, job.tenantId, "Max retry attempts exceeded");
-    return;
+    await markJobFailed(job, job.attempts, "Max retry attempts exceeded");
+    return null;
   }
 
-  // 3. Mark job as RUNNING
-  await prisma.job.update({
-    where: { id: jobId },
-    data: {
-      status: "RUNNING",
-      attempts: { increment: 1 },
-    },
+  // Check tenant limits - over-limit jobs are deferred without using an attempt
+  const limits = await getLimits(job.tenantId);
+  const admission = await admitJob(redis, {
+    tenantId: job.tenantId,
+    type: job.type,
+    jobId,
+    limits,
+    leaseMs: VISIBILITY_TIMEOUT_MS,
+    concurrencyRetryMs: LIMIT_RETRY_MS,
   });
 
-  await publishUpdate(job.tenantId, jobId, "RUNNING");
-  console.log(`[Worker] Job ${jobId} → RUNNING (attempt ${job.attempts + 1}/${MAX_ATTEMPTS})`);
+  if (!admission.admitted) {
+    await scheduleJob(redis, jobId, Date.now() + admission.retryAfterMs, {
+      tenantId: job.tenantId,
+      priority: job.priority,
+    });
+    console.log(
+      `[Worker] Job ${jobId} deferred ${admission.retryAfterMs}ms (tenant ${admission.reason} limit)`
+    );
+    return null;
+  }
+
+  // Keep the concurrency slot while the job runs
+  entry.tenantId = job.tenantId;
+  entry.holdsSlot = Boolean(limits.maxConcurrency);
+  return { job, retryPolicy, signal: entry.controller.signal };
+}
+
+/**
+ * Process a batch of popped jobs
+ * Jobs whose type has a batch handler are grouped into one call per chunk; the rest
+ * run individually, all concurrently. Every job is acknowledged whatever the outcome;
+ * if the worker dies first, the reaper puts it back on the queue.
+ */
+async function processBatch(jobIds: string[]): Promise<void> {
+  console.log(`\n[Worker] Processing ${jobIds.length} job(s): ${jobIds.join(", ")}`);
 
-  // 4. Process the job
+  let jobs: Job[];
   try {
-    const payload = job.payload as Record<string, unknown>;
-    const result = await processJob(job.type, payload);
-
-    if (result.success) {
-      // 5a. Mark as COMPLETED
-      await prisma.job.update({
-        where: { id: jobId },
-        data: { status: "COMPLETED", error: null },
-      });
+    jobs = await prisma.job.findMany({ where: { id: { in: jobIds } } });
+  } catch (error) {
+    // Leave the jobs unacknowledged - the reaper requeues them
+    console.error("[Worker] Failed to fetch batch:", error);
+    jobIds.forEach(freeWorkerSlot);
+    return;
+  }
+  const jobsById = new Map(jobs.map((job) => [job.id, job]));
 
-      await publishUpdate(job.tenantId, jobId, "COMPLETED");
-      console.log(`[Worker] Job ${jobId} → COMPLETED ✓`);
-    } else {
-      throw new Error(result.error || "Job processing failed");
+  // Tenants in the same batch share one limits lookup
+  const limitsByTenant = new Map<string, Promise<TenantLimits>>();
+  const getLimits = (tenantId: string) => {
+    let limits = limitsByTenant.get(tenantId);
+    if (!limits) {
+      limits = getTenantLimits(redis, tenantId);
+      limitsByTenant.set(tenantId, limits);
     }
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : "Unknown error";
-    console.error(`[Worker] Job ${jobId} failed: ${errorMessage}`);
+    return limits;
+  };
 
-    // 5b. Check retry logic
-    const newAttempts = job.attempts + 1;
+  const admitted: AdmittedJob[] = [];
+  await Promise.all(
+    jobIds.map(async (jobId) => {
+      const job = jobsById.get(jobId);
+      const entry = inFlight.get(jobId);
+      try {
+        if (!job || !entry) {
+          console.error(`[Worker] Job not found: ${jobId}`);
+        } else {
+          const ready = await admitFetchedJob(job, entry, getLimits);
+          if (ready) {
+            admitted.push(ready);
+            return;
+          }
+        }
+      } catch (error) {
+        console.error(`[Worker] Error admitting job ${jobId}:`, error);
+      }
+      await finishJob(jobId);
+    })
+  );
 
-    if (newAttempts >= MAX_ATTEMPTS) {
-      await markJobFailed(jobId, job.tenantId, errorMessage);
+  // Group batch-capable jobs by type, chunked to each handler's max batch size
+  const runs: Promise<void>[] = [];
+  const grouped = new Map<string, AdmittedJob[]>();
+
+  for (const entry of admitted) {
+    if (getBatchProcessor(entry.job.type)) {
+      grouped.set(entry.job.type, [...(grouped.get(entry.job.type) ?? []), entry]);
     } else {
-      // Requeue for retry
-      await prisma.job.update({
-        where: { id: jobId },
-        data: { status: "PENDING", error: errorMessage },
-      });
+      runs.push(runJobs([entry]));
+    }
+  }
 
-      // Push back to queue for retry (with delay in real implementation)
-      await redis.lpush("job_queue", jobId);
-      console.log(`[Worker] Job ${jobId} requeued for retry (${newAttempts}/${MAX_ATTEMPTS})`);
+  for (const [type, entries] of grouped) {
+    const handler = getBatchProcessor(type)!;
+    for (let i = 0; i < entries.length; i += handler.maxBatchSize) {
+      runs.push(runJobs(entries.slice(i, i + handler.maxBatchSize), handler));
     }
   }
+
+  await Promise.all(runs);
+}
+
+/**
+ * Run admitted jobs: mark them RUNNING, process them, then complete, retry or fail each
+ * With a batch handler the jobs are processed in one call; otherwise each job on its own.
+ */
+async function runJobs(entries: AdmittedJob[], handler?: BatchHandler): Promise<void> {
+  try {
+    // Mark jobs as RUNNING (skipped for jobs cancelled in the meantime)
+    const started = await writeJobStatuses(
+      entries.map(({ job }) => ({
+        jobId: job.id,
+        data: {
+          status: "RUNNING",
+          attempts: { increment: 1 },
+          nextRunAt: null,
+          progress: null,
+          progressMessage: null,
+        },
+        message: {
+          tenantId: job.tenantId,
+          jobId: job.id,
+          jobType: job.type,
+          status: "RUNNING",
+        },
+      }))
+    );
+
+    const running = entries.filter((_, i) => started[i]);
+
+    for (const { job, retryPolicy } of entries) {
+      if (running.some((entry) => entry.job.id === job.id)) {
+        console.log(
+          `[Worker] Job ${job.id} → RUNNING (attempt ${job.attempts + 1}/${retryPolicy.maxAttempts})`
+        );
+      } else {
+        console.log(`[Worker] Job ${job.id} was cancelled before it started`);
+      }
+    }
+
+    if (running.length === 0) return;
+
+    const startedAt = new Date();
+    const attempts: StartedAttempt[] = running.map(({ job }) => ({
+      jobId: job.id,
+      attempt: job.attempts + 1,
+      replay: job.replayCount,
+      startedAt,
+    }));
+    await startAttempts(WORKER_ID, attempts);
+
+    // Process the jobs, each against its own deadline
+    const payloads = running.map(({ job }) => job.payload);
+    const deadlines = running.map(({ job }) =>
+      startDeadline(resolveTimeout(job.type, job.timeoutMs))
+    );
+    const reporters = running.map(({ job }) => createProgressReporter(redis, job));
+    const loggers = running.map(({ job }, i) => createJobLogger(redis, job, attempts[i]!));
+    const contexts: ProcessContext[] = running.map(({ signal }, i) => ({
+      signal: AbortSignal.any([signal, deadlines[i]!.signal]),
+      reportProgress: reporters[i]!.report,
+      logger: loggers[i]!,
+    }));
+
+    let results: ProcessResult[];
+    try {
+      results = handler
+        ? await Promise.race([
+            processJobBatch(running[0]!.job.type, handler, payloads, contexts),
+            // A batch may run until the last of its jobs' deadlines
+            Promise.all(deadlines.map((deadline) => deadline.expired)).then(() =>
+              deadlines.map(timedOutResult)
+            ),
+          ])
+        : await Promise.all(
+            running.map(({ job }, i) =>
+              Promise.race([
+                processJob(job.type, payloads[i]!, contexts[i]!).catch(toFailure),
+                deadlines[i]!.expired.then(() => timedOutResult(deadlines[i]!)),
+              ])
+            )
+          );
+    } catch (error) {
+      const failure = toFailure(error);
+      results = running.map(() => failure);
+    }
+    deadlines.forEach((deadline) => deadline.clear());
+
+    // A job that failed after its deadline passed timed out (e.g. it stopped on the aborted signal)
+    const timedOut = running.map(
+      ({ signal }, i) => deadlines[i]!.signal.aborted && !signal.aborted && !results[i]?.success
+    );
+    results = results.map((result, i) => (timedOut[i] ? timedOutResult(deadlines[i]!) : result));
+
+    // Failures end up in the job's log too
+    results.forEach((result, i) => {
+      if (result && !result.success) loggers[i]?.error(result.error || "Job processing failed");
+    });
+
+    // No progress updates or log lines after the final status
+    await Promise.all([
+      ...reporters.map((reporter) => reporter.stop()),
+      ...loggers.map((logger) => logger.stop()),
+    ]);
+
+    await Promise.all(
+      running.map((entry, i) =>
+        recordOutcome(
+          entry,
+          attempts[i]!,
+          results[i] ?? { success: false, error: "Batch handler returned no result" },
+          timedOut[i]
+        )
+      )
+    );
+  } catch (error) {
+    console.error("[Worker] Error running jobs:", error);
+  } finally {
+    await Promise.all(
+      entries.map(({ job }) =>
+        finishJob(job.id).catch((error) =>
+          console.error(`[Worker] Failed to acknowledge ${job.id}:`, error)
+        )
+      )
+    );
+  }
+}
+
+/**
+ * Turn a thrown error into a failed result
+ */
+function toFailure(error: unknown): ProcessResult {
+  return error instanceof Error
+    ? { success: false, error: error.message, stack: error.stack }
+    : { success: false, error: "Unknown error" };
 }
 
 /**
- * Mark a job as permanently failed
+ * Record the attempt, then complete the job, or schedule its retry / fail it
+ * A timed-out attempt counts like any failed one.
  */
-async function markJobFailed(
-  jobId: string,
-  tenantId: string,
-  error: string
+async function recordOutcome(
+  { job, retryPolicy, signal }: AdmittedJob,
+  attempt: StartedAttempt,
+  result: ProcessResult,
+  timedOut = false
 ): Promise<void> {
-  await prisma.job.update({
-    where: { id: jobId },
-    data: { status: "FAILED", error },
+  const jobId = job.id;
+
+  let outcome: AttemptOutcome = result.success ? "SUCCEEDED" : "FAILED";
+  if (timedOut) outcome = "TIMED_OUT";
+  if (signal.aborted) outcome = "CANCELLED";
+
+  await finishAttempt(attempt, outcome, result);
+
+  // The API already marked it CANCELLED
+  if (signal.aborted) {
+    console.log(`[Worker] Job ${jobId} → CANCELLED`);
+    return;
+  }
+
+  if (result.success) {
+    const stored = toStoredOutput(result.output);
+    const completed = await writeJobStatus({
+      jobId,
+      data: { status: "COMPLETED", error: null, ...(stored && outputColumns(stored)) },
+      message: {
+        tenantId: job.tenantId,
+        jobId,
+        jobType: job.type,
+        status: "COMPLETED",
+        ...(stored && { output: stored.output }),
+      },
+    });
+    console.log(`[Worker] Job ${jobId} → COMPLETED ✓`);
+    if (completed) await settleDependents(redis, [jobId]);
+    return;
+  }
+
+  const errorMessage = result.error || "Job processing failed";
+  console.error(`[Worker] Job ${jobId} failed: ${errorMessage}`);
+
+  // Check retry logic
+  const newAttempts = job.attempts + 1;
+
+  // Retrying can't help some failures (e.g. an invalid payload)
+  if (newAttempts >= retryPolicy.maxAttempts || result.retryable === false) {
+    await markJobFailed(job, newAttempts, errorMessage);
+    return;
+  }
+
+  // Schedule the retry after the policy's backoff delay
+  const delayMs = computeRetryDelay(retryPolicy, newAttempts);
+  const nextRunAt = new Date(Date.now() + delayMs);
+
+  const retrying = await writeJobStatus({
+    jobId,
+    data: { status: "PENDING", error: errorMessage, nextRunAt },
+    message: {
+      tenantId: job.tenantId,
+      jobId,
+      jobType: job.type,
+      status: "PENDING",
+      error: errorMessage,
+    },
   });
+  if (!retrying) return;
 
-  await publishUpdate(tenantId, jobId, "FAILED", error);
-  console.log(`[Worker] Job ${jobId} → FAILED ✗`);
+  await scheduleJob(redis, jobId, nextRunAt, {
+    tenantId: job.tenantId,
+    priority: job.priority,
+  });
+  console.log(
+    `[Worker] Job ${jobId} retrying in ${delayMs}ms (${newAttempts}/${retryPolicy.maxAttempts})`
+  );
 }
 
 /**
- * Publish status update via Redis Pub/Sub
+ * Track popped jobs as in flight and start processing them in the background
  */
-async function publishUpdate(
-  tenantId: string,
-  jobId: string,
-  status: JobUpdateMessage["status"],
-  error: string | null = null
-): Promise<void> {
-  await publishJobUpdate(redis, { tenantId, jobId, status, error });
+function dispatchBatch(jobIds: string[]): void {
+  for (const jobId of jobIds) {
+    inFlight.set(jobId, { holdsSlot: false, controller: new AbortController() });
+  }
+
+  processBatch(jobIds).catch((error) => console.error("[Worker] Batch error:", error));
+}
+
+/**
+ * Requeue jobs whose worker stopped heartbeating and reset them in the database
+ */
+async function reapExpiredInFlightJobs(): Promise<void> {
+  const jobIds = await reapExpiredJobs(redis);
+  if (jobIds.length === 0) return;
+
+  const jobs = await prisma.job.findMany({
+    where: { id: { in: jobIds }, status: "RUNNING" },
+    select: { id: true, tenantId: true, type: true },
+  });
+
+  await prisma.job.updateMany({
+    where: { id: { in: jobs.map((job) => job.id) }, status: "RUNNING" },
+    data: { status: "PENDING" },
+  });
+
+  await abandonOpenAttempts(jobs.map((job) => job.id));
+
+  await publishJobUpdates(
+    redis,
+    jobs.map((job) => ({
+      tenantId: job.tenantId,
+      jobId: job.id,
+      jobType: job.type,
+      status: "PENDING" as const,
+    }))
+  );
+
+  console.log(`[Reaper] Requeued ${jobIds.length} expired in-flight job(s)`);
+}
+
+/**
+ * Move job IDs left in the single queue used before priorities onto their tenant's queue
+ * IDs of jobs that are no longer PENDING are dropped.
+ */
+async function drainLegacyQueue(): Promise<void> {
+  let moved = 0;
+
+  while (true) {
+    const jobIds = await readLegacyQueue(redis, LEGACY_DRAIN_BATCH_SIZE);
+    if (jobIds.length === 0) break;
+
+    const jobs = await prisma.job.findMany({
+      where: { id: { in: jobIds }, status: "PENDING" },
+      select: { id: true, tenantId: true, priority: true },
+    });
+    moved += await moveLegacyQueuedJobs(
+      redis,
+      jobIds,
+      jobs.map((job) => ({ jobId: job.id, tenantId: job.tenantId, priority: job.priority }))
+    );
+  }
+
+  if (moved > 0) {
+    console.log(`[Worker] Moved ${moved} job(s) from the legacy queue`);
+  }
+}
+
+/**
+ * Mark a job as permanently failed and move it to the dead-letter queue
+ * The entry is written first: if the worker dies in between, the reaper reruns the job
+ * and it fails again, rather than a FAILED job going missing from the queue.
+ */
+async function markJobFailed(job: Job, attempts: number, error: string): Promise<void> {
+  const jobId = job.id;
+
+  await moveToDeadLetter({ jobId, tenantId: job.tenantId, type: job.type, attempts, error });
+
+  const failed = await writeJobStatus({
+    jobId,
+    data: { status: "FAILED", error },
+    message: { tenantId: job.tenantId, jobId, jobType: job.type, status: "FAILED", error },
+  });
+
+  // Cancelled in the meantime - it doesn't belong in the dead-letter queue
+  if (!failed) {
+    await removeDeadLetter(jobId);
+    return;
+  }
+  console.log(`[Worker] Job ${jobId} → FAILED ✗ (dead-lettered)`);
+  await settleDependents(redis, [jobId]);
 }
 
 /**
@@ -135,17 +600,72 @@ async function publishUpdate(
  */
 async function runWorker(): Promise<void> {
   console.log("🔧 Worker started");
-  console.log(`   Poll interval: ${POLL_INTERVAL_MS}ms`);
-  console.log(`   Max attempts: ${MAX_ATTEMPTS}`);
+  console.log(`   Worker ID: ${WORKER_ID}`);
+  console.log(`   Concurrency: ${CONCURRENCY} (batch size ${BATCH_SIZE})`);
+  console.log(`   Visibility timeout: ${VISIBILITY_TIMEOUT_MS}ms`);
   console.log("");
 
+  // Jobs queued before an upgrade to per-priority queues would otherwise never run
+  await drainLegacyQueue().catch((error) =>
+    console.error("[Worker] Failed to drain the legacy queue:", error)
+  );
+
+  setInterval(() => {
+    reapExpiredInFlightJobs().catch((error) => console.error("[Reaper] Error:", error));
+  }, REAPER_INTERVAL_MS);
+
+  setInterval(() => void heartbeatInFlightJobs(), HEARTBEAT_INTERVAL_MS);
+
+  startScheduler(redis);
+  startRecurringScheduler(redis, WORKER_ID);
+  startDependencySweep(redis);
+
+  // Abort jobs cancelled while this worker holds them, and settle their dependents
+  subscribeToJobCancels(REDIS_URL, ({ jobId }) => {
+    const entry = inFlight.get(jobId);
+    if (entry) {
+      console.log(`[Worker] Cancelling job ${jobId}`);
+      entry.controller.abort();
+    }
+    settleDependents(redis, [jobId]).catch((error) =>
+      console.error("[Dependencies] Settle error:", error)
+    );
+  });
+
+  const popOptions = {
+    visibilityTimeoutMs: VISIBILITY_TIMEOUT_MS,
+    antiStarvationInterval: ANTI_STARVATION_INTERVAL,
+  };
+
   while (true) {
     try {
-      // Blocking pop - waits up to 5 seconds for a job
-      const jobId = await popJob(redis, 5);
+      // Wait for a free slot when at the concurrency limit
+      const freeSlots = CONCURRENCY - inFlight.size;
+      if (freeSlots <= 0) {
+        await waitForFreeSlot();
+        continue;
+      }
+
+      const jobIds = await popJobs(
+        redis,
+        WORKER_ID,
+        Math.min(freeSlots, BATCH_SIZE),
+        popOptions
+      );
+
+      if (jobIds.length > 0) {
+        dispatchBatch(jobIds);
+        continue;
+      }
+
+      // Queue is empty - wait for the next job
+      const jobId = await popJob(redis, WORKER_ID, {
+        ...popOptions,
+        timeout: POLL_INTERVAL_MS / 1000,
+      });
 
       if (jobId) {
-        await processJobWithLifecycle(jobId);
+        dispatchBatch([jobId]);
       }
     } catch (error) {
       console.error("[Worker] Error:", error);
@@ -160,12 +680,14 @@ async function runWorker(): Promise<void> {
  */
 process.on("SIGINT", async () => {
   console.log("\n[Worker] Shutting down...");
+  await flushJobStatuses();
   await prisma.$disconnect();
   process.exit(0);
 });
 
 process.on("SIGTERM", async () => {
   console.log("\n[Worker] Shutting down...");
+  await flushJobStatuses();
   await prisma.$disconnect();
   process.exit(0);
 });
@@ -0,0 +1,109 @@
+/**
+ * Job Logs
+ * Every processor gets a job-scoped logger (`context.logger`). Lines are echoed to stdout
+ * with the job ID, buffered, then stored as JobLog rows and published for live tailing in
+ * one batch per flush. Each attempt keeps at most MAX_LINES_PER_ATTEMPT lines.
+ */
+import { prisma, type LogLevel } from "@repo/db";
+import { publishJobLogs, type JobLogMessage, type Redis } from "@repo/redis";
+import type { JobLogger } from "@repo/processors";
+import type { StartedAttempt } from "./attempts.ts";
+
+const FLUSH_INTERVAL_MS = 250; // Max time a line waits before it is stored and published
+const MAX_LINES_PER_ATTEMPT = 500;
+const MAX_MESSAGE_LENGTH = 2000;
+
+/**
+ * A job logger the worker can stop once the attempt is over
+ */
+export interface AttemptLogger extends JobLogger {
+  /** Store and publish any buffered lines; later lines are dropped */
+  stop: () => Promise<void>;
+}
+
+type LogLine = JobLogMessage["lines"][number];
+
+/**
+ * Create the logger for one attempt of a job
+ */
+export function createJobLogger(
+  redis: Redis,
+  job: { id: string; tenantId: string; type: string },
+  attempt: StartedAttempt
+): AttemptLogger {
+  const prefix = `[${job.type}:${job.id.slice(0, 8)}]`;
+  let buffer: LogLine[] = [];
+  let nextLine = 1;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let writing: Promise<void> = Promise.resolve();
+  let stopped = false;
+
+  async function write(lines: LogLine[]): Promise<void> {
+    if (lines.length === 0) return;
+
+    // skipDuplicates: a requeued job may briefly run the same attempt twice
+    await prisma.jobLog.createMany({
+      data: lines.map((line) => ({
+        jobId: job.id,
+        replay: line.replay,
+        attempt: line.attempt,
+        line: line.line,
+        level: line.level,
+        message: line.message,
+        createdAt: new Date(line.timestamp),
+      })),
+      skipDuplicates: true,
+    });
+    await publishJobLogs(redis, { tenantId: job.tenantId, jobId: job.id, lines });
+  }
+
+  function flush(): Promise<void> {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+
+    const lines = buffer;
+    buffer = [];
+    writing = writing
+      .then(() => write(lines))
+      .catch((error) => console.error(`[Worker] Failed to store logs for ${job.id}:`, error));
+    return writing;
+  }
+
+  function log(level: LogLevel, message: string): void {
+    const consoleMethod = level === "ERROR" ? "error" : level === "WARN" ? "warn" : "log";
+    console[consoleMethod](`${prefix} ${message}`);
+
+    if (stopped || nextLine > MAX_LINES_PER_ATTEMPT + 1) return;
+
+    // The line after the cap says the rest was dropped
+    const capped = nextLine > MAX_LINES_PER_ATTEMPT;
+    buffer.push({
+      replay: attempt.replay,
+      attempt: attempt.attempt,
+      line: nextLine++,
+      level: capped ? "WARN" : level,
+      message: capped
+        ? `Log limit of ${MAX_LINES_PER_ATTEMPT} lines reached; further lines are not stored`
+        : message.slice(0, MAX_MESSAGE_LENGTH),
+      timestamp: new Date().toISOString(),
+    });
+
+    if (!timer) {
+      timer = setTimeout(() => void flush(), FLUSH_INTERVAL_MS);
+    }
+  }
+
+  return {
+    debug: (message) => log("DEBUG", message),
+    info: (message) => log("INFO", message),
+    warn: (message) => log("WARN", message),
+    error: (message) => log("ERROR", message),
+
+    async stop() {
+      stopped = true;
+      await flush();
+    },
+  };
+}
@@ -0,0 +1,48 @@
+/**
+ * Job Output Storage
+ * Caps processor output before it is stored on the job and published.
+ * Output over the cap is replaced by a string preview of its JSON and flagged as truncated;
+ * output that can't be serialized (BigInt, circular references) is replaced by a note
+ * saying so, flagged the same way.
+ */
+import { Prisma } from "@repo/db";
+
+export const MAX_OUTPUT_BYTES = 64 * 1024;
+
+export interface StoredOutput {
+  output: Prisma.InputJsonValue | null; // As published and returned by the API
+  outputTruncated: boolean;
+}
+
+/**
+ * Prepare processor output for storage; returns null if there is nothing to store
+ */
+export function toStoredOutput(output: unknown): StoredOutput | null {
+  if (output === undefined) return null;
+
+  // Round-trip through JSON so Dates etc. are stored the way clients will read them
+  let json: string | undefined;
+  try {
+    json = JSON.stringify(output);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return { output: `Output could not be serialized: ${reason}`, outputTruncated: true };
+  }
+  if (json === undefined) return null;
+
+  const bytes = Buffer.from(json);
+  if (bytes.length <= MAX_OUTPUT_BYTES) {
+    return { output: JSON.parse(json) as Prisma.InputJsonValue | null, outputTruncated: false };
+  }
+
+  // Drop a multi-byte character cut in half at the end
+  const preview = bytes.subarray(0, MAX_OUTPUT_BYTES).toString("utf8").replace(/\uFFFD$/, "");
+  return { output: preview, outputTruncated: true };
+}
+
+/**
+ * Job row fields for stored output (a JSON null needs Prisma.JsonNull in a Json? column)
+ */
+export function outputColumns({ output, outputTruncated }: StoredOutput) {
+  return { output: output ?? Prisma.JsonNull, outputTruncated };
+}
@@ -0,0 +1,83 @@
+import { describe, expect, test } from "bun:test";
+import { z } from "zod/v4";
+import { registerProcessor, type ProcessContext } from "@repo/processors";
+import { withParentOutputs } from "@repo/types";
+import { processJob, processJobBatch } from "./processor.ts";
+
+const received: Record<string, unknown>[] = [];
+
+registerProcessor({
+  type: "handoff_test",
+  payloadSchema: z.object({ label: z.string(), retries: z.number().default(1) }),
+  handler: async (payload) => {
+    received.push(payload);
+    return { success: true, output: payload };
+  },
+});
+
+function context(): ProcessContext {
+  return {
+    signal: new AbortController().signal,
+    reportProgress: () => {},
+    logger: { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} },
+  };
+}
+
+describe("processJob", () => {
+  test("hands a parent's output to its dependent job", async () => {
+    const parent = { id: "parent-id", workflowKey: "fetch", output: { rows: 42 } };
+    const payload = withParentOutputs({ label: "child" }, [parent]);
+
+    const result = await processJob("handoff_test", payload, context());
+
+    expect(result.success).toBe(true);
+    expect(result.output).toEqual({
+      label: "child",
+      retries: 1,
+      parentOutputs: { fetch: { rows: 42 } },
+    });
+  });
+
+  test("leaves payloads without parent outputs unchanged", async () => {
+    const result = await processJob("handoff_test", { label: "solo" }, context());
+
+    expect(result.output).toEqual({ label: "solo", retries: 1 });
+  });
+
+  test("still rejects invalid payloads", async () => {
+    const payload = withParentOutputs({ label: 7 }, []);
+
+    const result = await processJob("handoff_test", payload, context());
+
+    expect(result.success).toBe(false);
+    expect(result.retryable).toBe(false);
+  });
+});
+
+describe("processJobBatch", () => {
+  test("hands each job its own parents' outputs", async () => {
+    received.length = 0;
+    const payloads = [
+      withParentOutputs({ label: "a" }, [{ id: "p1", workflowKey: null, output: "one" }]),
+      { label: "b" },
+    ];
+
+    await processJobBatch(
+      "handoff_test",
+      {
+        maxBatchSize: 10,
+        process: async (batch) => {
+          received.push(...(batch as Record<string, unknown>[]));
+          return batch.map(() => ({ success: true }));
+        },
+      },
+      payloads,
+      [context(), context()]
+    );
+
+    expect(received).toEqual([
+      { label: "a", retries: 1, parentOutputs: { p1: "one" } },
+      { label: "b", retries: 1 },
+    ]);
+  });
+});
@@ -1,120 +1,99 @@
 /**
  * Job Processors
- * Define how each job type is processed
+ * Dispatches jobs to the handlers registered in @repo/processors. Payloads are checked
+ * against their type's schema again before dispatch (the job may predate a schema change,
+ * or come from a recurring schedule's template); an invalid payload fails the job without
+ * retrying. `parentOutputs`, added when a dependent job is released, isn't part of any type's
+ * schema: it is set aside before parsing and handed back with the parsed payload.
  */
+import {
+  getProcessor,
+  parseJobPayload,
+  type BatchHandler,
+  type ProcessContext,
+  type ProcessResult,
+} from "@repo/processors";
 
-export interface ProcessResult {
-  success: boolean;
-  error?: string;
-}
+export type { BatchHandler, ProcessContext, ProcessResult } from "@repo/processors";
 
 /**
- * Email job processor
+ * Parse a stored payload, or describe why it can't be processed
  */
-async function processEmailJob(payload: Record<string, unknown>): Promise<ProcessResult> {
-  const { to, subject, body } = payload as { to: string; subject: string; body?: string };
-  
-  console.log(`[Email] Sending to: ${to}`);
-  console.log(`[Email] Subject: ${subject}`);
-  
-  // Simulate email sending (replace with actual email service)
-  await sleep(500);
-  
-  // Simulate occasional failures for testing retry logic
-  if (Math.random() < 0.1) {
-    throw new Error("SMTP connection failed");
+function preparePayload(
+  type: string,
+  payload: unknown
+): { data: Record<string, unknown> } | { failure: ProcessResult } {
+  const record =
+    payload && typeof payload === "object" && !Array.isArray(payload)
+      ? (payload as Record<string, unknown>)
+      : null;
+  const { parentOutputs, ...rest } = record ?? {};
+
+  const parsed = parseJobPayload(type, record ? rest : payload);
+  if (parsed.success) {
+    return { data: parentOutputs === undefined ? parsed.data : { ...parsed.data, parentOutputs } };
   }
-  
-  console.log(`[Email] ✓ Sent successfully`);
-  return { success: true };
-}
 
-/**
- * Webhook job processor
- */
-async function processWebhookJob(payload: Record<string, unknown>): Promise<ProcessResult> {
-  const { url, method, headers, body } = payload as {
-    url: string;
-    method: string;
-    headers?: Record<string, string>;
-    body?: unknown;
+  const fields = parsed.fields.map(({ field, message }) => `${field}: ${message}`);
+  return {
+    failure: {
+      success: false,
+      error: [parsed.message, ...fields].join("; "),
+      retryable: false,
+    },
   };
-  
-  console.log(`[Webhook] ${method} ${url}`);
-  
-  try {
-    const response = await fetch(url, {
-      method,
-      headers: {
-        "Content-Type": "application/json",
-        ...headers,
-      },
-      body: body ? JSON.stringify(body) : undefined,
-    });
-    
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-    }
-    
-    console.log(`[Webhook] ✓ Response: ${response.status}`);
-    return { success: true };
-  } catch (error) {
-    throw new Error(`Webhook failed: ${error instanceof Error ? error.message : "Unknown error"}`);
-  }
 }
 
 /**
- * Sleep job processor (for testing)
+ * Main processor dispatcher
  */
-async function processSleepJob(payload: Record<string, unknown>): Promise<ProcessResult> {
-  const { delayMs } = payload as { delayMs: number };
-  
-  console.log(`[Sleep] Sleeping for ${delayMs}ms`);
-  await sleep(delayMs);
-  console.log(`[Sleep] ✓ Done`);
-  
-  return { success: true };
-}
+export async function processJob(
+  type: string,
+  payload: unknown,
+  context: ProcessContext
+): Promise<ProcessResult> {
+  const prepared = preparePayload(type, payload);
+  if ("failure" in prepared) return prepared.failure;
 
-/**
- * Data processing job processor
- */
-async function processDataJob(payload: Record<string, unknown>): Promise<ProcessResult> {
-  const { dataId, operation } = payload as { dataId: string; operation: string };
-  
-  console.log(`[Data] Processing ${dataId} with operation: ${operation}`);
-  
-  // Simulate data processing
-  await sleep(1000);
-  
-  console.log(`[Data] ✓ Completed`);
-  return { success: true };
+  return getProcessor(type)!.handler(prepared.data, context);
 }
 
 /**
- * Main processor dispatcher
+ * Process jobs of one type with its batch handler
+ * Jobs with invalid payloads are left out of the batch and fail on their own.
  */
-export async function processJob(
+export async function processJobBatch(
   type: string,
-  payload: Record<string, unknown>
-): Promise<ProcessResult> {
-  switch (type) {
-    case "email":
-      return processEmailJob(payload);
-    case "webhook":
-      return processWebhookJob(payload);
-    case "sleep":
-      return processSleepJob(payload);
-    case "data_processing":
-      return processDataJob(payload);
-    default:
-      throw new Error(`Unknown job type: ${type}`);
-  }
+  handler: BatchHandler,
+  payloads: unknown[],
+  contexts: ProcessContext[]
+): Promise<ProcessResult[]> {
+  const prepared = payloads.map((payload) => preparePayload(type, payload));
+  const valid: { index: number; payload: Record<string, unknown> }[] = [];
+  prepared.forEach((entry, index) => {
+    if ("data" in entry) valid.push({ index, payload: entry.data });
+  });
+
+  const results: ProcessResult[] = prepared.map((entry) =>
+    "failure" in entry
+      ? entry.failure
+      : { success: false, error: "Batch handler returned no result" }
+  );
+  if (valid.length === 0) return results;
+
+  const batchResults = await handler.process(
+    valid.map(({ payload }) => payload),
+    valid.map(({ index }) => contexts[index]!)
+  );
+  valid.forEach(({ index }, i) => {
+    if (batchResults[i]) results[index] = batchResults[i];
+  });
+  return results;
 }
 
 /**
- * Utility: sleep function
+ * Get the batch handler for a job type, if it has one
  */
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+export function getBatchProcessor(type: string): BatchHandler | undefined {
+  return getProcessor(type)?.options?.batch;
 }
@@ -0,0 +1,89 @@
+/**
+ * Job Progress Reporting
+ * Processors call `context.reportProgress(percent, message)` as often as they like; the
+ * reporter stores and publishes at most one update per job per interval (always the
+ * latest), so a tight loop can't flood Pub/Sub or the database.
+ */
+import { prisma } from "@repo/db";
+import { publishJobUpdate, type Redis } from "@repo/redis";
+
+const PROGRESS_INTERVAL_MS = 500; // Min time between progress updates of one job
+
+/**
+ * Throttled progress reporter for one running job
+ */
+export interface ProgressReporter {
+  report: (percent: number, message?: string) => void;
+  /** Drop any pending update and wait for one in flight (call before writing the final status) */
+  stop: () => Promise<void>;
+}
+
+/**
+ * Create a progress reporter for a running job
+ */
+export function createProgressReporter(
+  redis: Redis,
+  job: { id: string; tenantId: string; type: string }
+): ProgressReporter {
+  let latest: { percent: number; message: string | null } | null = null;
+  let lastSentAt = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let sending: Promise<void> = Promise.resolve();
+  let stopped = false;
+
+  async function send(): Promise<void> {
+    timer = null;
+    if (!latest || stopped) return;
+
+    const { percent, message } = latest;
+    latest = null;
+    lastSentAt = Date.now();
+
+    // Only while RUNNING - a late update must not touch a finished or cancelled job
+    const { count } = await prisma.job.updateMany({
+      where: { id: job.id, status: "RUNNING" },
+      data: { progress: percent, progressMessage: message },
+    });
+    if (count === 0 || stopped) return;
+
+    await publishJobUpdate(redis, {
+      type: "JOB_PROGRESS",
+      tenantId: job.tenantId,
+      jobId: job.id,
+      jobType: job.type,
+      percent,
+      message,
+    });
+  }
+
+  function flushLater(delayMs: number): void {
+    timer = setTimeout(() => {
+      sending = sending
+        .then(send)
+        .catch((error) => console.error(`[Worker] Progress update failed for ${job.id}:`, error));
+    }, delayMs);
+  }
+
+  return {
+    report(percent, message) {
+      if (stopped || !Number.isFinite(percent)) return;
+
+      latest = {
+        percent: Math.round(Math.min(100, Math.max(0, percent))),
+        message: message ?? null,
+      };
+      if (!timer) {
+        flushLater(Math.max(0, lastSentAt + PROGRESS_INTERVAL_MS - Date.now()));
+      }
+    },
+
+    async stop() {
+      stopped = true;
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      await sending;
+    },
+  };
+}
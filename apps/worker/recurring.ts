@@ -0,0 +1,110 @@
+/**
+ * Recurring Job Scheduler
+ *
+ * - Leader-elected via a Redis lock, so only one worker replica fires schedules
+ * - On each tick, creates a normal Job for every enabled schedule that is due
+ * - Records lastRunAt and the next cron occurrence on the schedule
+ *
+ * Missed occurrences (e.g. while no worker was running) fire once, not once per occurrence.
+ * An occurrence whose job can't be queued is undone and fires on a later tick.
+ */
+import { prisma, Prisma } from "@repo/db";
+import { acquireLock, renewLock, pushJob, type Redis } from "@repo/redis";
+import { getNextCronRun, renderPayloadTemplate } from "@repo/types";
+
+const LOCK_NAME = "recurring_scheduler";
+const LOCK_TTL_MS = 15_000; // Leadership lapses if the leader stops renewing
+const TICK_INTERVAL_MS = 5000; // How often due schedules are checked
+const TICK_BATCH_SIZE = 100;
+
+let isLeader = false;
+
+/**
+ * Take or keep leadership
+ */
+async function elect(redis: Redis, workerId: string): Promise<boolean> {
+  const wasLeader = isLeader;
+  isLeader = wasLeader
+    ? await renewLock(redis, LOCK_NAME, workerId, LOCK_TTL_MS)
+    : await acquireLock(redis, LOCK_NAME, workerId, LOCK_TTL_MS);
+
+  if (isLeader !== wasLeader) {
+    console.log(`[Recurring] ${isLeader ? "Became" : "Lost"} scheduler leadership`);
+  }
+  return isLeader;
+}
+
+/**
+ * Create a job for every due schedule
+ */
+async function fireDueSchedules(redis: Redis): Promise<void> {
+  const now = new Date();
+  const due = await prisma.recurringJob.findMany({
+    where: { enabled: true, nextRunAt: { lte: now } },
+    orderBy: { nextRunAt: "asc" },
+    take: TICK_BATCH_SIZE,
+  });
+
+  for (const schedule of due) {
+    const scheduledAt = schedule.nextRunAt!;
+    const nextRunAt = getNextCronRun(schedule.cronExpression, schedule.timezone, now);
+
+    const job = await prisma.$transaction(async (tx) => {
+      // Claim this occurrence; a stale leader racing us will match no rows
+      const claimed = await tx.recurringJob.updateMany({
+        where: { id: schedule.id, nextRunAt: scheduledAt },
+        data: { lastRunAt: now, nextRunAt },
+      });
+      if (claimed.count === 0) return null;
+
+      return tx.job.create({
+        data: {
+          tenantId: schedule.tenantId,
+          type: schedule.type,
+          payload: renderPayloadTemplate(schedule.payload, {
+            scheduledAt: scheduledAt.toISOString(),
+            scheduleId: schedule.id,
+          }) as Prisma.InputJsonValue,
+          status: "PENDING",
+          priority: schedule.priority,
+          retryPolicy: schedule.retryPolicy ?? Prisma.DbNull,
+          recurringJobId: schedule.id,
+        },
+      });
+    });
+
+    if (!job) continue;
+
+    try {
+      await pushJob(redis, job.id, { tenantId: job.tenantId, priority: job.priority });
+    } catch (error) {
+      // Unqueued, the job would never run: undo the occurrence so the next tick fires it again
+      await prisma.$transaction([
+        prisma.job.deleteMany({ where: { id: job.id } }),
+        prisma.recurringJob.updateMany({
+          where: { id: schedule.id, nextRunAt },
+          data: { lastRunAt: schedule.lastRunAt, nextRunAt: scheduledAt },
+        }),
+      ]);
+      throw error;
+    }
+    console.log(
+      `[Recurring] Schedule ${schedule.id} fired job ${job.id}, next run ${nextRunAt.toISOString()}`
+    );
+  }
+}
+
+/**
+ * Start the leader election and schedule tick loop
+ */
+export function startRecurringScheduler(redis: Redis, workerId: string): void {
+  setInterval(async () => {
+    try {
+      if (await elect(redis, workerId)) {
+        await fireDueSchedules(redis);
+      }
+    } catch (error) {
+      console.error("[Recurring] Tick error:", error);
+    }
+  }, TICK_INTERVAL_MS);
+}
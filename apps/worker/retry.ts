@@ -0,0 +1,59 @@
+/**
+ * Retry Policies
+ * Decide how many attempts a job gets and how long to wait between them
+ */
+import { RetryPolicySchema, type RetryPolicy } from "@repo/types";
+import { getProcessor } from "@repo/processors";
+
+/**
+ * Policy used when neither the job nor its type defines one
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  strategy: "fixed",
+  maxAttempts: 3,
+  delayMs: 1000,
+  jitter: 0,
+};
+
+/**
+ * Resolve the policy for a job: per-job override, then job type default (registered with
+ * the processor), then global default
+ */
+export function resolveRetryPolicy(type: string, jobPolicy: unknown): RetryPolicy {
+  if (jobPolicy) {
+    const result = RetryPolicySchema.safeParse(jobPolicy);
+    if (result.success) return result.data;
+    console.warn(`[Retry] Ignoring invalid retry policy on ${type} job`);
+  }
+  return getProcessor(type)?.options?.retryPolicy ?? DEFAULT_RETRY_POLICY;
+}
+
+/**
+ * Delay before the next attempt, given the number of attempts made so far
+ */
+export function computeRetryDelay(policy: RetryPolicy, attempt: number): number {
+  let delay: number;
+
+  switch (policy.strategy) {
+    case "fixed":
+      delay = policy.delayMs;
+      break;
+    case "linear":
+      delay = policy.delayMs * attempt;
+      break;
+    case "exponential":
+      delay = policy.delayMs * 2 ** (attempt - 1);
+      break;
+  }
+
+  if (policy.maxDelayMs !== undefined) {
+    delay = Math.min(delay, policy.maxDelayMs);
+  }
+
+  // Spread retries out so failing jobs don't all come back at once
+  if (policy.jitter > 0) {
+    delay -= Math.random() * policy.jitter * delay;
+  }
+
+  return Math.round(delay);
+}
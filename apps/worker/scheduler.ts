@@ -0,0 +1,99 @@
+/**
+ * Scheduler - Delayed and Scheduled Jobs
+ *
+ * - Promotes due jobs from the delayed set onto the main queue
+ *   (retry backoffs and jobs created with runAt / delayMs)
+ * - Marks promoted SCHEDULED jobs as PENDING
+ * - Re-adds SCHEDULED jobs from the database to the delayed set, so they
+ *   still run if Redis lost them or the API crashed before scheduling
+ */
+import { prisma } from "@repo/db";
+import {
+  promoteDueJobs,
+  restoreScheduledJobs,
+  publishJobUpdate,
+  type Redis,
+} from "@repo/redis";
+
+const PROMOTER_INTERVAL_MS = 1000; // How often due delayed jobs are moved to the queue
+const RESTORE_INTERVAL_MS = 60_000; // How often SCHEDULED jobs are re-synced from the database
+const RESTORE_BATCH_SIZE = 500;
+
+/**
+ * Move due jobs onto the queue and flip SCHEDULED ones to PENDING
+ */
+async function promote(redis: Redis): Promise<void> {
+  const jobIds = await promoteDueJobs(redis);
+  if (jobIds.length === 0) return;
+
+  const scheduled = await prisma.job.findMany({
+    where: { id: { in: jobIds }, status: "SCHEDULED" },
+    select: { id: true, tenantId: true, type: true },
+  });
+  if (scheduled.length === 0) return;
+
+  await prisma.job.updateMany({
+    where: { id: { in: scheduled.map((job) => job.id) }, status: "SCHEDULED" },
+    data: { status: "PENDING" },
+  });
+
+  for (const job of scheduled) {
+    await publishJobUpdate(redis, {
+      tenantId: job.tenantId,
+      jobId: job.id,
+      jobType: job.type,
+      status: "PENDING",
+    });
+  }
+
+  console.log(`[Scheduler] ${scheduled.length} scheduled job(s) due → PENDING`);
+}
+
+/**
+ * Re-add every SCHEDULED job in the database to the delayed set
+ */
+async function restore(redis: Redis): Promise<void> {
+  let cursor: string | undefined;
+  let restored = 0;
+
+  while (true) {
+    const jobs = await prisma.job.findMany({
+      where: { status: "SCHEDULED" },
+      select: { id: true, tenantId: true, nextRunAt: true, priority: true },
+      orderBy: { id: "asc" },
+      take: RESTORE_BATCH_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+    if (jobs.length === 0) break;
+
+    restored += await restoreScheduledJobs(
+      redis,
+      jobs.map((job) => ({
+        jobId: job.id,
+        runAt: job.nextRunAt ?? new Date(),
+        tenantId: job.tenantId,
+        priority: job.priority,
+      }))
+    );
+    cursor = jobs[jobs.length - 1]!.id;
+  }
+
+  if (restored > 0) {
+    console.log(`[Scheduler] Restored ${restored} scheduled job(s) from the database`);
+  }
+}
+
+/**
+ * Start the promoter and restore loops
+ */
+export function startScheduler(redis: Redis): void {
+  restore(redis).catch((error) => console.error("[Scheduler] Restore error:", error));
+
+  setInterval(() => {
+    promote(redis).catch((error) => console.error("[Scheduler] Promote error:", error));
+  }, PROMOTER_INTERVAL_MS);
+
+  setInterval(() => {
+    restore(redis).catch((error) => console.error("[Scheduler] Restore error:", error));
+  }, RESTORE_INTERVAL_MS);
+}
@@ -0,0 +1,139 @@
+/**
+ * Batched Job Status Writes
+ *
+ * Status changes from concurrently running jobs are buffered briefly and written
+ * together: one database transaction and one Pub/Sub pipeline per flush.
+ * Callers await their write, so a job is never acknowledged before its status is stored.
+ * Writes resolve once the transaction commits; a failed publish is only logged, since the
+ * stored status is what the reaper and the API go by.
+ * Cancelled jobs are never overwritten: a write to one is skipped and resolves to false.
+ */
+import { prisma, type Prisma } from "@repo/db";
+import { publishJobUpdates, type JobUpdateMessage, type Redis } from "@repo/redis";
+
+const FLUSH_INTERVAL_MS = 50; // Max time a write waits for others to join its batch
+const MAX_BATCH_SIZE = 100; // Flush immediately once this many writes are buffered
+
+/**
+ * A status change for one job
+ */
+export interface StatusWrite {
+  jobId: string;
+  /** Fields to update on the job row */
+  data: Prisma.JobUpdateManyMutationInput;
+  /** Update to publish once the row is written (omit to stay silent) */
+  message?: JobUpdateMessage;
+}
+
+interface BufferedWrite {
+  write: StatusWrite;
+  resolve: (applied: boolean) => void;
+  reject: (error: unknown) => void;
+}
+
+let buffer: BufferedWrite[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let redisClient: Redis | null = null;
+
+/**
+ * Set the Redis client used to publish updates
+ */
+export function initStatusWriter(redis: Redis): void {
+  redisClient = redis;
+}
+
+/**
+ * Update one job's row; updateMany so a job deleted mid-flight doesn't count as an error
+ */
+function updateJobStatus(write: StatusWrite) {
+  return prisma.job.updateMany({
+    where: { id: write.jobId, status: { not: "CANCELLED" } },
+    data: write.data,
+  });
+}
+
+/**
+ * Write everything buffered so far
+ * If the batch's transaction fails, each job is written on its own, so one bad row only
+ * fails its own write.
+ */
+async function flush(): Promise<void> {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+
+  const batch = buffer;
+  buffer = [];
+  if (batch.length === 0) return;
+
+  // null: the write failed (and was rejected)
+  let applied: (boolean | null)[];
+  try {
+    const results = await prisma.$transaction(batch.map(({ write }) => updateJobStatus(write)));
+    applied = results.map((result) => result.count > 0);
+  } catch (error) {
+    if (batch.length === 1) {
+      batch[0]!.reject(error);
+      return;
+    }
+    console.error(`[Status] Batch of ${batch.length} writes failed; writing one by one:`, error);
+    applied = await Promise.all(
+      batch.map(({ write, reject }) =>
+        updateJobStatus(write).then(
+          (result) => result.count > 0,
+          (writeError) => {
+            reject(writeError);
+            return null;
+          }
+        )
+      )
+    );
+  }
+
+  // Sent before the writers resume, so a job's updates still go out in order
+  const messages = batch.flatMap(({ write }, i) =>
+    applied[i] && write.message ? [write.message] : []
+  );
+  const published = redisClient ? publishJobUpdates(redisClient, messages) : null;
+
+  batch.forEach(({ resolve }, i) => {
+    if (applied[i] !== null) resolve(applied[i] ?? false);
+  });
+
+  try {
+    await published;
+  } catch (error) {
+    console.error(`[Status] Failed to publish ${messages.length} job update(s):`, error);
+  }
+}
+
+/**
+ * Queue a status write; resolves once it has been stored (publishing follows)
+ * Resolves to false if the job was cancelled (or no longer exists)
+ */
+export function writeJobStatus(write: StatusWrite): Promise<boolean> {
+  return new Promise((resolve, reject) => {
+    buffer.push({ write, resolve, reject });
+
+    if (buffer.length >= MAX_BATCH_SIZE) {
+      void flush();
+    } else if (!flushTimer) {
+      flushTimer = setTimeout(() => void flush(), FLUSH_INTERVAL_MS);
+    }
+  });
+}
+
+/**
+ * Write several status changes as one batch
+ */
+export async function writeJobStatuses(writes: StatusWrite[]): Promise<boolean[]> {
+  return Promise.all(writes.map(writeJobStatus));
+}
+
+/**
+ * Write anything still buffered (e.g. on shutdown)
+ */
+export async function flushJobStatuses(): Promise<void> {
+  await flush();
+}
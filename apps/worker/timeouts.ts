@@ -0,0 +1,59 @@
+/**
+ * Execution Timeouts
+ * Every attempt gets a deadline. When it passes, the processor's signal aborts and the worker
+ * stops waiting for it: the attempt ends as TIMED_OUT and the job is retried per its retry
+ * policy like any other failure. A processor that ignores its signal keeps running in the
+ * background, but no longer holds up the job or the worker.
+ */
+import { getProcessor } from "@repo/processors";
+import type { ProcessResult } from "./processor.ts";
+
+/**
+ * Timeout used when neither the job nor its type defines one
+ */
+export const DEFAULT_JOB_TIMEOUT_MS = 5 * 60_000;
+
+/**
+ * Resolve the timeout for a job: per-job override, then job type default, then global default
+ */
+export function resolveTimeout(type: string, jobTimeoutMs: number | null): number {
+  return jobTimeoutMs ?? getProcessor(type)?.options?.timeoutMs ?? DEFAULT_JOB_TIMEOUT_MS;
+}
+
+/**
+ * The deadline of one running attempt
+ */
+export interface Deadline {
+  timeoutMs: number;
+  signal: AbortSignal; // Aborts when the deadline passes
+  expired: Promise<void>; // Resolves when the deadline passes
+  clear: () => void;
+}
+
+/**
+ * Start the clock on an attempt
+ */
+export function startDeadline(timeoutMs: number): Deadline {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const expired = new Promise<void>((resolve) => {
+    timer = setTimeout(() => {
+      controller.abort(new Error(timedOutMessage(timeoutMs)));
+      resolve();
+    }, timeoutMs);
+  });
+
+  return { timeoutMs, signal: controller.signal, expired, clear: () => clearTimeout(timer) };
+}
+
+/**
+ * Result recorded for an attempt that ran past its deadline
+ */
+export function timedOutResult({ timeoutMs }: Deadline): ProcessResult {
+  return { success: false, error: timedOutMessage(timeoutMs) };
+}
+
+function timedOutMessage(timeoutMs: number): string {
+  return `Timed out after ${timeoutMs}ms`;
+}
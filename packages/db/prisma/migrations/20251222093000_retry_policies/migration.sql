@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Job" ADD COLUMN     "nextRunAt" TIMESTAMP(3),
+ADD COLUMN     "retryPolicy" JSONB;
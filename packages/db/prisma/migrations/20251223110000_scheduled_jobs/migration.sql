@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "JobStatus" ADD VALUE 'SCHEDULED';
+
+-- CreateIndex
+CREATE INDEX "Job_status_nextRunAt_idx" ON "Job"("status", "nextRunAt");
@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "Job" ADD COLUMN     "recurringJobId" TEXT;
+
+-- CreateTable
+CREATE TABLE "RecurringJob" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "cronExpression" TEXT NOT NULL,
+    "timezone" TEXT NOT NULL DEFAULT 'UTC',
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "retryPolicy" JSONB,
+    "lastRunAt" TIMESTAMP(3),
+    "nextRunAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RecurringJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Job_recurringJobId_idx" ON "Job"("recurringJobId");
+
+-- CreateIndex
+CREATE INDEX "RecurringJob_tenantId_idx" ON "RecurringJob"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "RecurringJob_enabled_nextRunAt_idx" ON "RecurringJob"("enabled", "nextRunAt");
+
+-- AddForeignKey
+ALTER TABLE "Job" ADD CONSTRAINT "Job_recurringJobId_fkey" FOREIGN KEY ("recurringJobId") REFERENCES "RecurringJob"("id") ON DELETE SET NULL ON UPDATE CASCADE;
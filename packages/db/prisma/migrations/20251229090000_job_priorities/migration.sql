@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "JobPriority" AS ENUM ('HIGH', 'NORMAL', 'LOW');
+
+-- AlterTable
+ALTER TABLE "Job" ADD COLUMN     "priority" "JobPriority" NOT NULL DEFAULT 'NORMAL';
+
+-- AlterTable
+ALTER TABLE "RecurringJob" ADD COLUMN     "priority" "JobPriority" NOT NULL DEFAULT 'NORMAL';
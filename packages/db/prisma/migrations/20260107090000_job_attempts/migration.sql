@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "AttemptOutcome" AS ENUM ('SUCCEEDED', 'FAILED', 'CANCELLED', 'ABANDONED');
+
+-- CreateTable
+CREATE TABLE "JobAttempt" (
+    "id" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "attempt" INTEGER NOT NULL,
+    "workerId" TEXT NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+    "durationMs" INTEGER,
+    "outcome" "AttemptOutcome",
+    "error" TEXT,
+    "stack" TEXT,
+
+    CONSTRAINT "JobAttempt_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "JobAttempt_jobId_attempt_key" ON "JobAttempt"("jobId", "attempt");
+
+-- AddForeignKey
+ALTER TABLE "JobAttempt" ADD CONSTRAINT "JobAttempt_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "Job"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Job" ADD COLUMN     "output" JSONB,
+ADD COLUMN     "outputTruncated" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "Job" ADD COLUMN     "lastReplayedAt" TIMESTAMP(3),
+ADD COLUMN     "replayCount" INTEGER NOT NULL DEFAULT 0;
+
+-- DropIndex
+DROP INDEX "JobAttempt_jobId_attempt_key";
+
+-- AlterTable
+ALTER TABLE "JobAttempt" ADD COLUMN     "replay" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "DeadLetter" (
+    "jobId" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "error" TEXT NOT NULL,
+    "errorSignature" TEXT NOT NULL,
+    "attempts" INTEGER NOT NULL,
+    "failedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DeadLetter_pkey" PRIMARY KEY ("jobId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "JobAttempt_jobId_replay_attempt_key" ON "JobAttempt"("jobId", "replay", "attempt");
+
+-- CreateIndex
+CREATE INDEX "DeadLetter_tenantId_type_idx" ON "DeadLetter"("tenantId", "type");
+
+-- CreateIndex
+CREATE INDEX "DeadLetter_tenantId_errorSignature_idx" ON "DeadLetter"("tenantId", "errorSignature");
+
+-- AddForeignKey
+ALTER TABLE "DeadLetter" ADD CONSTRAINT "DeadLetter_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "Job"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "ParentFailurePolicy" AS ENUM ('FAIL', 'CANCEL');
+
+-- AlterEnum
+ALTER TYPE "JobStatus" ADD VALUE 'WAITING';
+
+-- AlterTable
+ALTER TABLE "Job" ADD COLUMN     "onParentFailure" "ParentFailurePolicy" NOT NULL DEFAULT 'FAIL',
+ADD COLUMN     "workflowId" TEXT,
+ADD COLUMN     "workflowKey" TEXT;
+
+-- CreateTable
+CREATE TABLE "JobDependency" (
+    "jobId" TEXT NOT NULL,
+    "dependsOnId" TEXT NOT NULL,
+
+    CONSTRAINT "JobDependency_pkey" PRIMARY KEY ("jobId","dependsOnId")
+);
+
+-- CreateIndex
+CREATE INDEX "Job_workflowId_idx" ON "Job"("workflowId");
+
+-- CreateIndex
+CREATE INDEX "JobDependency_dependsOnId_idx" ON "JobDependency"("dependsOnId");
+
+-- AddForeignKey
+ALTER TABLE "JobDependency" ADD CONSTRAINT "JobDependency_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "Job"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "JobDependency" ADD CONSTRAINT "JobDependency_dependsOnId_fkey" FOREIGN KEY ("dependsOnId") REFERENCES "Job"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Job" ADD COLUMN     "progress" INTEGER,
+ADD COLUMN     "progressMessage" TEXT;
@@ -0,0 +1,22 @@
+-- CreateEnum
+CREATE TYPE "LogLevel" AS ENUM ('DEBUG', 'INFO', 'WARN', 'ERROR');
+
+-- CreateTable
+CREATE TABLE "JobLog" (
+    "id" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "replay" INTEGER NOT NULL DEFAULT 0,
+    "attempt" INTEGER NOT NULL,
+    "line" INTEGER NOT NULL,
+    "level" "LogLevel" NOT NULL,
+    "message" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "JobLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "JobLog_jobId_replay_attempt_line_key" ON "JobLog"("jobId", "replay", "attempt", "line");
+
+-- AddForeignKey
+ALTER TABLE "JobLog" ADD CONSTRAINT "JobLog_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "Job"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "AttemptOutcome" ADD VALUE 'TIMED_OUT';
+
+-- AlterTable
+ALTER TABLE "Job" ADD COLUMN     "timeoutMs" INTEGER;
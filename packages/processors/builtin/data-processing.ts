@@ -0,0 +1,53 @@
+/**
+ * Data processing job type
+ */
+import { z } from "zod/v4";
+import { registerProcessor } from "../registry.ts";
+import { sleep, type ProcessContext, type ProcessResult } from "../context.ts";
+
+export const DataProcessingPayloadSchema = z.object({
+  dataId: z.string().uuid(),
+  operation: z.string().min(1),
+});
+
+export type DataProcessingPayload = z.infer<typeof DataProcessingPayloadSchema>;
+
+export interface DataProcessingOutput {
+  dataId: string;
+  operation: string;
+  completedAt: string;
+}
+
+/**
+ * Run an operation over a dataset
+ */
+async function processDataJob(
+  { dataId, operation }: DataProcessingPayload,
+  { signal, reportProgress, logger }: ProcessContext
+): Promise<ProcessResult<DataProcessingOutput>> {
+  const stages = ["Loading data", "Transforming", `Running ${operation}`, "Saving results"];
+  
+  logger.info(`Processing ${dataId} with operation: ${operation}`);
+  
+  // Simulate data processing
+  for (const [i, stage] of stages.entries()) {
+    reportProgress((i / stages.length) * 100, stage);
+    logger.debug(stage);
+    await sleep(250, signal);
+  }
+  reportProgress(100, "Done");
+  
+  logger.info("✓ Completed");
+  return { success: true, output: { dataId, operation, completedAt: new Date().toISOString() } };
+}
+
+registerProcessor({
+  type: "data_processing",
+  payloadSchema: DataProcessingPayloadSchema,
+  handler: processDataJob,
+  options: {
+    label: "Data processing",
+    description: "Run an operation over a dataset",
+    examplePayload: { dataId: "550e8400-e29b-41d4-a716-446655440000", operation: "aggregate" },
+  },
+});
@@ -0,0 +1,90 @@
+/**
+ * Email job type
+ */
+import { z } from "zod/v4";
+import { registerProcessor } from "../registry.ts";
+import { sleep, type ProcessContext, type ProcessResult } from "../context.ts";
+
+export const EmailPayloadSchema = z.object({
+  to: z.email(),
+  subject: z.string().min(1).max(200),
+  body: z.string().optional(),
+});
+
+export type EmailPayload = z.infer<typeof EmailPayloadSchema>;
+
+export interface EmailOutput {
+  messageId: string;
+}
+
+/**
+ * Send one email
+ */
+async function processEmailJob(
+  { to, subject }: EmailPayload,
+  { signal, logger }: ProcessContext
+): Promise<ProcessResult<EmailOutput>> {
+  logger.info(`Sending to: ${to}`);
+  logger.info(`Subject: ${subject}`);
+  
+  // Simulate email sending (replace with actual email service)
+  await sleep(500, signal);
+  
+  // Simulate occasional failures for testing retry logic
+  if (Math.random() < 0.1) {
+    throw new Error("SMTP connection failed");
+  }
+  
+  logger.info("✓ Sent successfully");
+  return { success: true, output: { messageId: crypto.randomUUID() } };
+}
+
+/**
+ * Send many emails in one provider call
+ */
+async function processEmailBatch(
+  messages: EmailPayload[],
+  contexts: ProcessContext[]
+): Promise<ProcessResult<EmailOutput>[]> {
+  console.log(`[Email] Sending batch of ${messages.length}`);
+
+  // Simulate one bulk send (replace with the provider's batch API)
+  await sleep(500);
+
+  // Providers report delivery per recipient, so failures don't sink the whole batch.
+  // Jobs cancelled before the send are left out of it.
+  const results = messages.map(({ to }, i): ProcessResult<EmailOutput> => {
+    const context = contexts[i];
+    if (context?.signal.aborted) return { success: false, error: "Job cancelled" };
+
+    if (Math.random() < 0.1) {
+      context?.logger.error(`SMTP rejected recipient ${to}`);
+      return { success: false, error: `SMTP rejected recipient ${to}` };
+    }
+    context?.logger.info(`✓ Sent to ${to} (batch of ${messages.length})`);
+    return { success: true, output: { messageId: crypto.randomUUID() } };
+  });
+
+  const sent = results.filter((result) => result.success).length;
+  console.log(`[Email] ✓ Sent ${sent}/${messages.length}`);
+  return results;
+}
+
+registerProcessor({
+  type: "email",
+  payloadSchema: EmailPayloadSchema,
+  handler: processEmailJob,
+  options: {
+    label: "Email",
+    description: "Send an email",
+    examplePayload: { to: "user@example.com", subject: "Test Email" },
+    retryPolicy: {
+      strategy: "exponential",
+      maxAttempts: 3,
+      delayMs: 2000,
+      maxDelayMs: 60_000,
+      jitter: 0.2,
+    },
+    batch: { maxBatchSize: 50, process: processEmailBatch },
+  },
+});
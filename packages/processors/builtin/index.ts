@@ -0,0 +1,7 @@
+/**
+ * Built-in job types - importing this module registers them
+ */
+export * from "./email.ts";
+export * from "./webhook.ts";
+export * from "./sleep.ts";
+export * from "./data-processing.ts";
@@ -0,0 +1,46 @@
+/**
+ * Sleep job type (for testing)
+ */
+import { z } from "zod/v4";
+import { registerProcessor } from "../registry.ts";
+import { sleep, type ProcessContext, type ProcessResult } from "../context.ts";
+
+export const SleepPayloadSchema = z.object({
+  delayMs: z.number().int().min(0).max(60000),
+});
+
+export type SleepPayload = z.infer<typeof SleepPayloadSchema>;
+
+export interface SleepOutput {
+  sleptMs: number;
+}
+
+/**
+ * Sleep for the given time, reporting progress every tenth
+ */
+async function processSleepJob(
+  { delayMs }: SleepPayload,
+  { signal, reportProgress, logger }: ProcessContext
+): Promise<ProcessResult<SleepOutput>> {
+  const steps = 10;
+  
+  logger.info(`Sleeping for ${delayMs}ms`);
+  for (let step = 1; step <= steps; step++) {
+    await sleep(delayMs / steps, signal);
+    reportProgress((step / steps) * 100, `Slept ${Math.round((delayMs * step) / steps)}ms`);
+  }
+  logger.info("✓ Done");
+  
+  return { success: true, output: { sleptMs: delayMs } };
+}
+
+registerProcessor({
+  type: "sleep",
+  payloadSchema: SleepPayloadSchema,
+  handler: processSleepJob,
+  options: {
+    label: "Sleep (3s)",
+    description: "Wait, then succeed (for testing)",
+    examplePayload: { delayMs: 3000 },
+  },
+});
@@ -0,0 +1,83 @@
+/**
+ * Webhook job type
+ */
+import { z } from "zod/v4";
+import { registerProcessor } from "../registry.ts";
+import type { ProcessContext, ProcessResult } from "../context.ts";
+
+export const WebhookPayloadSchema = z
+  .object({
+    url: z.url(),
+    method: z.enum(["GET", "POST", "PUT", "DELETE"]).default("POST"),
+    headers: z.record(z.string(), z.string()).optional(),
+    body: z.unknown().optional(),
+  })
+  .refine((payload) => payload.body === undefined || ["POST", "PUT"].includes(payload.method), {
+    message: "body is only allowed with POST or PUT",
+    path: ["body"],
+  });
+
+export type WebhookPayload = z.infer<typeof WebhookPayloadSchema>;
+
+export interface WebhookOutput {
+  status: number;
+  body: unknown; // Parsed JSON, or the raw text
+}
+
+/**
+ * Call a webhook
+ */
+async function processWebhookJob(
+  { url, method, headers, body }: WebhookPayload,
+  { signal, logger }: ProcessContext
+): Promise<ProcessResult<WebhookOutput>> {
+  logger.info(`${method} ${url}`);
+  
+  try {
+    const response = await fetch(url, {
+      method,
+      headers: {
+        "Content-Type": "application/json",
+        ...headers,
+      },
+      body: body ? JSON.stringify(body) : undefined,
+      signal,
+    });
+    
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+    
+    const text = await response.text();
+    let responseBody: unknown = text;
+    try {
+      responseBody = JSON.parse(text);
+    } catch {
+      // Not JSON - keep the raw text
+    }
+
+    logger.info(`✓ Response: ${response.status}`);
+    return { success: true, output: { status: response.status, body: responseBody } };
+  } catch (error) {
+    throw new Error(`Webhook failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+  }
+}
+
+registerProcessor({
+  type: "webhook",
+  payloadSchema: WebhookPayloadSchema,
+  handler: processWebhookJob,
+  options: {
+    label: "Webhook",
+    description: "Send an HTTP request",
+    examplePayload: { url: "https://httpbin.org/post", method: "POST" },
+    retryPolicy: {
+      strategy: "exponential",
+      maxAttempts: 5,
+      delayMs: 1000,
+      maxDelayMs: 5 * 60_000,
+      jitter: 0.5,
+    },
+    timeoutMs: 30_000,
+  },
+});
@@ -0,0 +1,60 @@
+/**
+ * What processors receive and return
+ */
+
+/**
+ * Result of processing one job
+ */
+export interface ProcessResult<TOutput = unknown> {
+  success: boolean;
+  error?: string;
+  stack?: string;
+  output?: TOutput; // JSON-serializable; stored on the job and returned by GET /jobs/:id/result
+  retryable?: boolean; // false fails the job right away, skipping remaining attempts
+}
+
+/**
+ * Job-scoped logger: lines are stored on the job (GET /jobs/:id/logs) as well as printed
+ */
+export interface JobLogger {
+  debug: (message: string) => void;
+  info: (message: string) => void;
+  warn: (message: string) => void;
+  error: (message: string) => void;
+}
+
+/**
+ * Per-job context passed to processors
+ * `signal` aborts when the job is cancelled or runs past its timeout; long-running work
+ * should stop promptly.
+ * `reportProgress` can be called freely - updates are throttled before they are published.
+ */
+export interface ProcessContext {
+  signal: AbortSignal;
+  reportProgress: (percent: number, message?: string) => void;
+  logger: JobLogger;
+}
+
+/**
+ * Sleep that rejects early if the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error("Job cancelled"));
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    function onAbort() {
+      clearTimeout(timer);
+      reject(new Error("Job cancelled"));
+    }
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,18 @@
+/**
+ * @repo/processors - Job type registry
+ *
+ * This package exports:
+ * - Registry: registerProcessor, getProcessor, listProcessors, describeProcessors, parseJobPayload,
+ *   getCreateJobSchema
+ * - Processor context and result types: ProcessContext, ProcessResult, JobLogger
+ * - Built-in job types (email, webhook, sleep, data_processing), registered on import
+ */
+
+// Export the registry
+export * from "./registry.ts";
+
+// Export processor context types and helpers
+export * from "./context.ts";
+
+// Register and export the built-in job types
+export * from "./builtin/index.ts";
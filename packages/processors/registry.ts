@@ -0,0 +1,177 @@
+/**
+ * Processor Registry
+ * A job type is defined once: payload schema, handler and options. The API validates
+ * payloads against the schema, the worker dispatches to the handler, and GET /job-types
+ * lists the catalog.
+ */
+import { z } from "zod/v4";
+import {
+  CreateJobFieldsSchema,
+  CreateJobSchema,
+  toFieldErrors,
+  withCreateJobRules,
+  type FieldError,
+  type JobTypeResponse,
+  type RetryPolicy,
+} from "@repo/types";
+import type { ProcessContext, ProcessResult } from "./context.ts";
+
+const TYPE_NAME_PATTERN = /^[a-z][a-z0-9_]{0,49}$/;
+
+/**
+ * Batch handler a job type can opt into
+ * Receives several jobs' payloads (and contexts) in one call and returns one result
+ * per payload, in order.
+ */
+export interface BatchHandler<TPayload = unknown> {
+  maxBatchSize: number;
+  process(payloads: TPayload[], contexts: ProcessContext[]): Promise<ProcessResult[]>;
+}
+
+/**
+ * Optional per-type settings
+ */
+export interface ProcessorOptions<TPayload = unknown> {
+  label?: string; // Shown in the dashboard (defaults to the type)
+  description?: string;
+  examplePayload?: TPayload; // Used by the dashboard to create sample jobs
+  retryPolicy?: RetryPolicy; // Default for jobs of this type without their own policy
+  timeoutMs?: number; // Max run time of one attempt, unless the job sets its own
+  batch?: BatchHandler<TPayload>;
+}
+
+/**
+ * A job type: its name, payload schema, handler and options
+ */
+export interface ProcessorDefinition<TSchema extends z.ZodType = z.ZodType> {
+  type: string;
+  payloadSchema: TSchema;
+  handler(payload: z.output<TSchema>, context: ProcessContext): Promise<ProcessResult>;
+  options?: ProcessorOptions<z.output<TSchema>>;
+}
+
+/**
+ * Result of checking a payload against its type's schema
+ */
+export type PayloadParseResult =
+  | { success: true; data: Record<string, unknown> }
+  | { success: false; message: string; fields: FieldError[] };
+
+const processors = new Map<string, ProcessorDefinition>();
+let createJobSchema: RegisteredCreateJobSchema | null = null;
+
+/**
+ * Register a job type
+ * Throws if the type name is invalid or already registered.
+ */
+export function registerProcessor<TSchema extends z.ZodType>(
+  definition: ProcessorDefinition<TSchema>
+): void {
+  if (!TYPE_NAME_PATTERN.test(definition.type)) {
+    throw new Error(
+      `Invalid job type "${definition.type}": use lowercase letters, digits and underscores`
+    );
+  }
+  if (processors.has(definition.type)) {
+    throw new Error(`Job type "${definition.type}" is already registered`);
+  }
+  processors.set(definition.type, definition);
+  createJobSchema = null;
+}
+
+/**
+ * Get a registered job type
+ */
+export function getProcessor(type: string): ProcessorDefinition | undefined {
+  return processors.get(type);
+}
+
+/**
+ * All registered job types, in registration order
+ */
+export function listProcessors(): ProcessorDefinition[] {
+  return [...processors.values()];
+}
+
+/**
+ * Catalog of registered job types for GET /job-types (payload schemas as JSON Schema)
+ */
+export function describeProcessors(): JobTypeResponse[] {
+  return listProcessors().map(({ type, payloadSchema, options = {} }) => ({
+    type,
+    label: options.label ?? type,
+    description: options.description ?? null,
+    payloadSchema: z.toJSONSchema(payloadSchema, { io: "input", unrepresentable: "any" }),
+    examplePayload: options.examplePayload ?? null,
+    retryPolicy: options.retryPolicy ?? null,
+    timeoutMs: options.timeoutMs ?? null,
+    maxBatchSize: options.batch?.maxBatchSize ?? null,
+  }));
+}
+
+/**
+ * Create job request schema for one job type
+ */
+function createJobVariant(type: string, payloadSchema: z.ZodType) {
+  return CreateJobFieldsSchema.extend({ type: z.literal(type), payload: payloadSchema });
+}
+
+type CreateJobVariant = ReturnType<typeof createJobVariant>;
+
+/**
+ * Create job request schema narrowed to the registered job types
+ */
+export type RegisteredCreateJobSchema = z.ZodDiscriminatedUnion<
+  [CreateJobVariant, ...CreateJobVariant[]]
+>;
+
+/**
+ * Create job request schema with per-type payloads
+ * A discriminated union on `type` with one variant per registered job type, so an unknown
+ * type or an invalid payload is reported field by field ("type", "payload.to", ...).
+ * Rebuilt after a job type is registered; without any, the generic CreateJobSchema.
+ */
+export function getCreateJobSchema(): RegisteredCreateJobSchema | typeof CreateJobSchema {
+  if (createJobSchema) return createJobSchema;
+
+  const types = [...processors.keys()];
+  const [first, ...rest] = listProcessors().map(({ type, payloadSchema }) =>
+    createJobVariant(type, payloadSchema)
+  );
+  if (!first) return CreateJobSchema;
+
+  const union = z.discriminatedUnion("type", [first, ...rest], {
+    error: (issue) =>
+      issue.code === "invalid_union"
+        ? `Unknown job type; expected one of: ${types.join(", ")}`
+        : undefined,
+  });
+
+  createJobSchema = withCreateJobRules(union);
+  return createJobSchema;
+}
+
+/**
+ * Check a payload against its type's schema
+ * Returns the parsed payload (with schema defaults applied) or why it was rejected.
+ */
+export function parseJobPayload(type: string, payload: unknown): PayloadParseResult {
+  const processor = processors.get(type);
+  if (!processor) {
+    return {
+      success: false,
+      message: `Unknown job type "${type}"`,
+      fields: [{ field: "type", message: `Unknown job type "${type}"` }],
+    };
+  }
+
+  const result = processor.payloadSchema.safeParse(payload);
+  if (!result.success) {
+    return {
+      success: false,
+      message: `Invalid payload for job type "${type}"`,
+      fields: toFieldErrors(result.error, "payload"),
+    };
+  }
+  return { success: true, data: result.data as Record<string, unknown> };
+}
@@ -0,0 +1,127 @@
+/**
+ * Redis Delayed Job Queue
+ * Uses a Redis SORTED SET scored by the time a job becomes due (ms since epoch)
+ * Due jobs are promoted onto their tenant's queue by a promoter loop
+ */
+import type { Redis } from "ioredis";
+import { QUEUE_LUA, encodeRoute, type JobRoute, type QueuedJob } from "./queue.ts";
+
+const DELAYED_QUEUE_KEY = "job_delayed";
+const DELAYED_ROUTES_KEY = "job_delayed:routes";
+
+/**
+ * Atomically move due job IDs from the delayed set onto their queue.
+ * KEYS: delayed zset, routes hash
+ * ARGV: now (ms), max IDs to promote
+ */
+const PROMOTE_SCRIPT = `${QUEUE_LUA}
+local due = redis.call("ZRANGEBYSCORE", KEYS[1], "-inf", ARGV[1], "LIMIT", 0, tonumber(ARGV[2]))
+for _, jobId in ipairs(due) do
+  local route = redis.call("HGET", KEYS[2], jobId)
+  redis.call("ZREM", KEYS[1], jobId)
+  redis.call("HDEL", KEYS[2], jobId)
+  if route then
+    local priority, tenant = parse_route(route)
+    enqueue(priority, tenant, jobId, false)
+  end
+end
+return due
+`;
+
+function toScore(runAt: Date | number): number {
+  return runAt instanceof Date ? runAt.getTime() : runAt;
+}
+
+/**
+ * Schedule a job ID to be pushed to its queue at `runAt`
+ * Rescheduling an ID that is already delayed moves its due time
+ */
+export async function scheduleJob(
+  redis: Redis,
+  jobId: string,
+  runAt: Date | number,
+  route: JobRoute
+): Promise<number> {
+  const results = await redis
+    .multi()
+    .zadd(DELAYED_QUEUE_KEY, toScore(runAt), jobId)
+    .hset(DELAYED_ROUTES_KEY, jobId, encodeRoute(route))
+    .exec();
+  return (results?.[0]?.[1] as number | undefined) ?? 0;
+}
+
+/**
+ * Schedule several job IDs in one round trip
+ */
+export async function scheduleJobs(
+  redis: Redis,
+  jobs: (QueuedJob & { runAt: Date | number })[]
+): Promise<number> {
+  if (jobs.length === 0) return 0;
+
+  const multi = redis.multi();
+  for (const { jobId, runAt, ...route } of jobs) {
+    multi.zadd(DELAYED_QUEUE_KEY, toScore(runAt), jobId);
+    multi.hset(DELAYED_ROUTES_KEY, jobId, encodeRoute(route));
+  }
+  const results = (await multi.exec()) ?? [];
+
+  // Count the ZADDs (every other command) that added a new ID
+  return results.filter(([err, value], i) => i % 2 === 0 && !err && value === 1).length;
+}
+
+/**
+ * Remove a job ID from the delayed set (e.g. when the job is cancelled)
+ * Returns true if it was scheduled
+ */
+export async function unscheduleJob(redis: Redis, jobId: string): Promise<boolean> {
+  const results = await redis
+    .multi()
+    .zrem(DELAYED_QUEUE_KEY, jobId)
+    .hdel(DELAYED_ROUTES_KEY, jobId)
+    .exec();
+  return ((results?.[0]?.[1] as number | undefined) ?? 0) > 0;
+}
+
+/**
+ * Re-add scheduled jobs (e.g. from the database after a Redis restart)
+ * IDs already in the delayed set keep their current due time
+ */
+export async function restoreScheduledJobs(
+  redis: Redis,
+  jobs: (QueuedJob & { runAt: Date | number })[]
+): Promise<number> {
+  if (jobs.length === 0) return 0;
+
+  const pipeline = redis.pipeline();
+  for (const { jobId, runAt, ...route } of jobs) {
+    pipeline.zadd(DELAYED_QUEUE_KEY, "NX", toScore(runAt), jobId);
+    pipeline.hsetnx(DELAYED_ROUTES_KEY, jobId, encodeRoute(route));
+  }
+  const results = (await pipeline.exec()) ?? [];
+
+  // Count the ZADDs (every other command) that actually added an ID
+  return results.filter(([err, value], i) => i % 2 === 0 && !err && value === 1).length;
+}
+
+/**
+ * Move jobs whose due time has passed onto their queue
+ * Returns the promoted job IDs
+ */
+export async function promoteDueJobs(redis: Redis, limit: number = 100): Promise<string[]> {
+  return (await redis.eval(
+    PROMOTE_SCRIPT,
+    2,
+    DELAYED_QUEUE_KEY,
+    DELAYED_ROUTES_KEY,
+    Date.now(),
+    limit
+  )) as string[];
+}
+
+/**
+ * Get the number of delayed jobs
+ */
+export async function getDelayedJobCount(redis: Redis): Promise<number> {
+  return redis.zcard(DELAYED_QUEUE_KEY);
+}
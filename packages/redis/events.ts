@@ -0,0 +1,121 @@
+/**
+ * Redis Job Event Log
+ * Every job status change is appended to a capped per-tenant Redis Stream before it is
+ * published, so a client that was disconnected can replay what it missed. The stream entry
+ * id ("<ms>-<seq>") is the event id: it increases monotonically within a tenant.
+ */
+import type { Redis } from "ioredis";
+import type { JobStatusMessage } from "./pubsub.ts";
+
+const EVENT_LOG_KEY_PREFIX = "job_events:";
+
+// Approximate number of events kept per tenant (older ones are trimmed)
+export const EVENT_LOG_MAX_LENGTH = 10_000;
+
+// A tenant's log is dropped after this long without events; older event ids can't resume
+export const EVENT_LOG_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A job status change with its event id
+ */
+export type JobStatusEvent = JobStatusMessage & { eventId: string };
+
+/**
+ * Whether a client can resume after an event id, and the log's latest event id
+ */
+export interface EventLogPosition {
+  resumable: boolean; // False if events after it may have been trimmed
+  lastEventId: string | null; // Null if the tenant has no recent events
+}
+
+export function eventLogKey(tenantId: string): string {
+  return `${EVENT_LOG_KEY_PREFIX}${tenantId}`;
+}
+
+/**
+ * Throw if any command of a pipeline of job updates failed
+ * A pipeline resolves even when some of its commands fail (e.g. a Lua error), so each
+ * result is checked; updates before and after a failed one still went out.
+ */
+export function throwPipelineErrors(results: [Error | null, unknown][] | null): void {
+  const errors = (results ?? []).flatMap(([error]) => (error ? [error] : []));
+  if (errors.length === 0) return;
+
+  throw new AggregateError(
+    errors,
+    `${errors.length} of ${results!.length} job update(s) failed: ${errors[0]!.message}`
+  );
+}
+
+/**
+ * Compare two event ids (negative if a is older than b)
+ */
+export function compareEventIds(a: string, b: string): number {
+  const [aMs = 0, aSeq = 0] = a.split("-").map(Number);
+  const [bMs = 0, bSeq = 0] = b.split("-").map(Number);
+  return aMs - bMs || aSeq - bSeq;
+}
+
+/**
+ * Where a tenant's event log stands, relative to the last event id a client saw
+ * Without `afterEventId` only the latest event id is of interest (always resumable).
+ */
+export async function getEventLogPosition(
+  redis: Redis,
+  tenantId: string,
+  afterEventId?: string
+): Promise<EventLogPosition> {
+  let info: unknown[];
+  try {
+    info = (await redis.xinfo("STREAM", eventLogKey(tenantId))) as unknown[];
+  } catch {
+    // No log: no events for a day (or ever), so anything after afterEventId is gone
+    return { resumable: afterEventId === undefined, lastEventId: null };
+  }
+
+  const fields = new Map<string, unknown>();
+  for (let i = 0; i + 1 < info.length; i += 2) {
+    fields.set(String(info[i]), info[i + 1]);
+  }
+
+  const lastEventId = String(fields.get("last-generated-id") ?? "0-0");
+  if (afterEventId === undefined) return { resumable: true, lastEventId };
+
+  // max-deleted-entry-id (Redis 7+) is the newest event trimmed from the log
+  const trimmedThrough = String(fields.get("max-deleted-entry-id") ?? "0-0");
+  const resumable =
+    compareEventIds(afterEventId, trimmedThrough) >= 0 &&
+    compareEventIds(afterEventId, lastEventId) <= 0 &&
+    Number(afterEventId.split("-")[0]) >= Date.now() - EVENT_LOG_TTL_MS;
+
+  return { resumable, lastEventId };
+}
+
+/**
+ * Read a tenant's events after an event id, oldest first
+ */
+export async function readJobEvents(
+  redis: Redis,
+  tenantId: string,
+  afterEventId: string,
+  limit: number
+): Promise<JobStatusEvent[]> {
+  const entries = await redis.xrange(
+    eventLogKey(tenantId),
+    `(${afterEventId}`,
+    "+",
+    "COUNT",
+    limit
+  );
+
+  return entries.flatMap(([eventId, fields]) => {
+    const index = fields.indexOf("data");
+    const data = index === -1 ? undefined : fields[index + 1];
+    if (!data) return [];
+    try {
+      return [{ ...(JSON.parse(data) as JobStatusMessage), eventId }];
+    } catch {
+      return [];
+    }
+  });
+}
@@ -0,0 +1,105 @@
+/**
+ * Redis Idempotency Keys
+ * Remembers the response to a request made with an `Idempotency-Key` so client retries
+ * replay it instead of repeating the side effects. Keys are scoped per tenant and store
+ * a hash of the request body, so a reused key with a different body can be rejected.
+ */
+import type { Redis } from "ioredis";
+
+const IDEMPOTENCY_KEY_PREFIX = "idempotency:";
+
+// How long a stored response is replayed
+export const IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
+
+// How long a claim is held while the original request is still running
+const IN_PROGRESS_TTL_MS = 60_000;
+
+export interface IdempotentResponse {
+  statusCode: number;
+  body: unknown;
+}
+
+interface IdempotencyRecord {
+  requestHash: string;
+  response?: IdempotentResponse; // Unset while the original request is in progress
+}
+
+export type IdempotencyClaim =
+  | { status: "claimed" }
+  | { status: "mismatch" }
+  | { status: "in_progress" }
+  | { status: "replay"; response: IdempotentResponse };
+
+/**
+ * Return the existing record, or store the claim if there is none.
+ * KEYS: idempotency key
+ * ARGV: claim record (JSON), claim ttl (ms)
+ */
+const CLAIM_SCRIPT = `
+local existing = redis.call("GET", KEYS[1])
+if existing then
+  return existing
+end
+redis.call("SET", KEYS[1], ARGV[1], "PX", ARGV[2])
+return false
+`;
+
+function idempotencyKey(tenantId: string, key: string): string {
+  return `${IDEMPOTENCY_KEY_PREFIX}${tenantId}:${key}`;
+}
+
+/**
+ * Claim an idempotency key for a request
+ * - claimed: first use, run the request and save its response
+ * - replay: same request seen before, return the stored response
+ * - mismatch: key already used with a different request body
+ * - in_progress: same request is still being handled
+ */
+export async function claimIdempotencyKey(
+  redis: Redis,
+  tenantId: string,
+  key: string,
+  requestHash: string
+): Promise<IdempotencyClaim> {
+  const claim: IdempotencyRecord = { requestHash };
+  const existing = (await redis.eval(
+    CLAIM_SCRIPT,
+    1,
+    idempotencyKey(tenantId, key),
+    JSON.stringify(claim),
+    IN_PROGRESS_TTL_MS
+  )) as string | null;
+
+  if (!existing) return { status: "claimed" };
+
+  const record = JSON.parse(existing) as IdempotencyRecord;
+  if (record.requestHash !== requestHash) return { status: "mismatch" };
+  if (!record.response) return { status: "in_progress" };
+  return { status: "replay", response: record.response };
+}
+
+/**
+ * Store the response for a claimed key, replayed for `ttlMs`
+ */
+export async function saveIdempotentResponse(
+  redis: Redis,
+  tenantId: string,
+  key: string,
+  requestHash: string,
+  response: IdempotentResponse,
+  ttlMs: number = IDEMPOTENCY_TTL_MS
+): Promise<void> {
+  const record: IdempotencyRecord = { requestHash, response };
+  await redis.set(idempotencyKey(tenantId, key), JSON.stringify(record), "PX", ttlMs);
+}
+
+/**
+ * Drop a claim whose request failed, so the client can retry it
+ */
+export async function releaseIdempotencyKey(
+  redis: Redis,
+  tenantId: string,
+  key: string
+): Promise<void> {
+  await redis.del(idempotencyKey(tenantId, key));
+}
@@ -2,8 +2,20 @@
  * @repo/redis - Redis Queue and Pub/Sub Package
  *
  * Exports:
- * - Queue operations: pushJob, popJob, popJobs
- * - Pub/Sub: publishJobUpdate, subscribeToJobUpdates, createPubSub
+ * - Queue operations: pushJob, popJob, popJobs, ackJob, reapExpiredJobs
+ * - Upgrades: readLegacyQueue, moveLegacyQueuedJobs (drain the pre-priority queue)
+ * - Tenant fairness: setTenantWeight, getTenantWeight
+ * - Tenant limits: admitJob, releaseConcurrencySlot, setTenantLimits
+ * - Delayed jobs: scheduleJob, promoteDueJobs
+ * - Locks: acquireLock, renewLock, releaseLock (leader election)
+ * - Idempotency keys: claimIdempotencyKey, saveIdempotentResponse
+ * - Pub/Sub: publishJobUpdate, publishJobUpdates, subscribeToJobUpdates, createPubSub
+ *   (status changes and job progress)
+ * - Job event log: getEventLogPosition, readJobEvents (replay of missed status changes)
+ * - Streams transport: subscribeToJobEventStream, appendJobEvents (durable job events with
+ *   consumer groups; JOB_EVENTS_TRANSPORT=streams switches publishJobUpdate and friends over)
+ * - Cancellation signals: publishJobCancel, subscribeToJobCancels
+ * - Live job logs: publishJobLogs, subscribeToJobLogs
  * - Redis client factory
  */
 import Redis from "ioredis";
@@ -47,20 +59,115 @@ export async function closeRedisClient(): Promise<void> {
 export {
   pushJob,
   pushJobs,
+  removeQueuedJob,
   popJob,
   popJobs,
+  ackJob,
+  extendJobVisibility,
+  reapExpiredJobs,
+  readLegacyQueue,
+  moveLegacyQueuedJobs,
+  getInFlightJobs,
   getQueueLength,
+  getActiveTenants,
   clearQueue,
+  setTenantWeight,
+  getTenantWeight,
+  clearTenantWeight,
+  DEFAULT_VISIBILITY_TIMEOUT_MS,
+  DEFAULT_TENANT_WEIGHT,
+  QUEUE_PRIORITIES,
+  DEFAULT_PRIORITY,
+  type QueuePriority,
+  type JobRoute,
+  type QueuedJob,
+  type PopOptions,
 } from "./queue.ts";
 
+// Re-export delayed queue operations
+export {
+  scheduleJob,
+  scheduleJobs,
+  unscheduleJob,
+  restoreScheduledJobs,
+  promoteDueJobs,
+  getDelayedJobCount,
+} from "./delayed.ts";
+
+// Re-export tenant limit operations
+export {
+  getTenantLimits,
+  setTenantLimits,
+  clearTenantLimits,
+  admitJob,
+  renewConcurrencySlot,
+  releaseConcurrencySlot,
+  getRunningJobCount,
+  type TenantLimits,
+  type RateLimit,
+  type AdmitResult,
+} from "./limits.ts";
+
+// Re-export lock operations
+export { acquireLock, renewLock, releaseLock } from "./lock.ts";
+
+// Re-export idempotency key operations
+export {
+  claimIdempotencyKey,
+  saveIdempotentResponse,
+  releaseIdempotencyKey,
+  IDEMPOTENCY_TTL_MS,
+  type IdempotencyClaim,
+  type IdempotentResponse,
+} from "./idempotency.ts";
+
 // Re-export pub/sub operations
 export {
   publishJobUpdate,
+  publishJobUpdates,
   subscribeToJobUpdates,
+  publishJobCancel,
+  subscribeToJobCancels,
+  publishJobLogs,
+  subscribeToJobLogs,
   createPubSub,
+  JOB_EVENTS_TRANSPORT,
+  type JobEventTransport,
+  type PubSubOptions,
   type JobUpdateMessage,
+  type JobUpdateEvent,
+  type JobStatusMessage,
+  type JobProgressMessage,
   type JobUpdateHandler,
+  type JobCancelMessage,
+  type JobCancelHandler,
+  type JobLogMessage,
+  type JobLogHandler,
 } from "./pubsub.ts";
 
+// Re-export job event log operations
+export {
+  getEventLogPosition,
+  readJobEvents,
+  compareEventIds,
+  EVENT_LOG_MAX_LENGTH,
+  EVENT_LOG_TTL_MS,
+  type JobStatusEvent,
+  type EventLogPosition,
+} from "./events.ts";
+
+// Re-export Redis Streams transport operations
+export {
+  appendJobEvents,
+  subscribeToJobEventStream,
+  toJobEventEnvelope,
+  JOB_EVENT_STREAM,
+  DEFAULT_STREAM_TRIM,
+  type StreamTrimPolicy,
+  type StreamReadOptions,
+  type JobStreamEvent,
+  type JobStreamHandler,
+} from "./streams.ts";
+
 // Re-export Redis type for convenience
 export { Redis };
\ No newline at end of file
@@ -0,0 +1,178 @@
+/**
+ * Redis Tenant Limits
+ * - Concurrency: a per-tenant semaphore (SORTED SET of running job IDs scored by lease expiry)
+ * - Rate: a token bucket per tenant and job type (HASH of tokens + last refill time)
+ * Both are checked and taken in one script, so a job is only admitted if it passes both.
+ */
+import type { Redis } from "ioredis";
+
+const TENANT_LIMITS_KEY = "tenant_limits";
+const RUNNING_KEY_PREFIX = "tenant_running:";
+const BUCKET_KEY_PREFIX = "rate_bucket:";
+
+/**
+ * Token bucket settings for one job type
+ */
+export interface RateLimit {
+  /** Tokens added per second */
+  perSecond: number;
+  /** Bucket size (defaults to perSecond) */
+  burst?: number;
+}
+
+/**
+ * Limits configured for a tenant
+ */
+export interface TenantLimits {
+  /** Max jobs RUNNING at once */
+  maxConcurrency?: number;
+  /** Rate limits keyed by job type */
+  rateLimits?: Record<string, RateLimit>;
+}
+
+export type AdmitResult =
+  | { admitted: true }
+  | { admitted: false; reason: "concurrency" | "rate"; retryAfterMs: number };
+
+/**
+ * Take a concurrency slot and a rate token, or neither.
+ * KEYS: running zset, bucket hash
+ * ARGV: jobId, now (ms), lease (ms), max concurrency (0 = unlimited),
+ *       per second (0 = unlimited), burst, concurrency retry (ms)
+ * Returns {admitted (0/1), reason, retry after (ms)}
+ */
+const ADMIT_SCRIPT = `
+local now = tonumber(ARGV[2])
+local maxConcurrency = tonumber(ARGV[4])
+local perSecond = tonumber(ARGV[5])
+local burst = tonumber(ARGV[6])
+
+if maxConcurrency > 0 then
+  redis.call("ZREMRANGEBYSCORE", KEYS[1], "-inf", now)
+  if not redis.call("ZSCORE", KEYS[1], ARGV[1]) and redis.call("ZCARD", KEYS[1]) >= maxConcurrency then
+    return {0, "concurrency", tonumber(ARGV[7])}
+  end
+end
+
+if perSecond > 0 then
+  local bucket = redis.call("HMGET", KEYS[2], "tokens", "ts")
+  local tokens = tonumber(bucket[1]) or burst
+  local ts = tonumber(bucket[2]) or now
+  tokens = math.min(burst, tokens + (now - ts) / 1000 * perSecond)
+
+  if tokens < 1 then
+    return {0, "rate", math.ceil((1 - tokens) / perSecond * 1000)}
+  end
+
+  redis.call("HSET", KEYS[2], "tokens", tostring(tokens - 1), "ts", now)
+  redis.call("PEXPIRE", KEYS[2], math.ceil(burst / perSecond * 1000) + 1000)
+end
+
+if maxConcurrency > 0 then
+  redis.call("ZADD", KEYS[1], now + tonumber(ARGV[3]), ARGV[1])
+end
+
+return {1, "", 0}
+`;
+
+function runningKey(tenantId: string): string {
+  return `${RUNNING_KEY_PREFIX}${tenantId}`;
+}
+
+function bucketKey(tenantId: string, type: string): string {
+  return `${BUCKET_KEY_PREFIX}${tenantId}:${type}`;
+}
+
+/**
+ * Get a tenant's limits (empty if none are configured)
+ */
+export async function getTenantLimits(redis: Redis, tenantId: string): Promise<TenantLimits> {
+  const raw = await redis.hget(TENANT_LIMITS_KEY, tenantId);
+  return raw ? (JSON.parse(raw) as TenantLimits) : {};
+}
+
+/**
+ * Replace a tenant's limits
+ */
+export async function setTenantLimits(
+  redis: Redis,
+  tenantId: string,
+  limits: TenantLimits
+): Promise<void> {
+  await redis.hset(TENANT_LIMITS_KEY, tenantId, JSON.stringify(limits));
+}
+
+/**
+ * Remove all limits for a tenant
+ */
+export async function clearTenantLimits(redis: Redis, tenantId: string): Promise<void> {
+  await redis.hdel(TENANT_LIMITS_KEY, tenantId);
+}
+
+/**
+ * Check a job against its tenant's limits and take a slot/token if it may run
+ * A job already holding a slot keeps it (so re-admitting refreshes the lease)
+ */
+export async function admitJob(
+  redis: Redis,
+  options: {
+    tenantId: string;
+    type: string;
+    jobId: string;
+    limits: TenantLimits;
+    /** How long the concurrency slot is held without renewal */
+    leaseMs: number;
+    /** Suggested wait when the tenant is at its concurrency limit */
+    concurrencyRetryMs?: number;
+  }
+): Promise<AdmitResult> {
+  const { tenantId, type, jobId, limits, leaseMs, concurrencyRetryMs = 1000 } = options;
+  const rate = limits.rateLimits?.[type];
+
+  const [admitted, reason, retryAfterMs] = (await redis.eval(
+    ADMIT_SCRIPT,
+    2,
+    runningKey(tenantId),
+    bucketKey(tenantId, type),
+    jobId,
+    Date.now(),
+    leaseMs,
+    limits.maxConcurrency ?? 0,
+    rate?.perSecond ?? 0,
+    rate?.burst ?? rate?.perSecond ?? 0,
+    concurrencyRetryMs
+  )) as [number, string, number];
+
+  if (admitted === 1) return { admitted: true };
+  return { admitted: false, reason: reason as "concurrency" | "rate", retryAfterMs };
+}
+
+/**
+ * Extend the lease on a running job's concurrency slot
+ */
+export async function renewConcurrencySlot(
+  redis: Redis,
+  tenantId: string,
+  jobId: string,
+  leaseMs: number
+): Promise<void> {
+  await redis.zadd(runningKey(tenantId), "XX", Date.now() + leaseMs, jobId);
+}
+
+/**
+ * Give back a job's concurrency slot
+ */
+export async function releaseConcurrencySlot(
+  redis: Redis,
+  tenantId: string,
+  jobId: string
+): Promise<void> {
+  await redis.zrem(runningKey(tenantId), jobId);
+}
+
+/**
+ * Number of jobs currently holding a tenant's concurrency slots
+ */
+export async function getRunningJobCount(redis: Redis, tenantId: string): Promise<number> {
+  return redis.zcount(runningKey(tenantId), Date.now(), "+inf");
+}
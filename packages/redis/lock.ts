@@ -0,0 +1,72 @@
+/**
+ * Redis Distributed Lock
+ * Used for leader election between replicas (e.g. only one recurring job scheduler fires)
+ * SET NX PX with a per-holder token; renew and release only succeed for the holder
+ */
+import type { Redis } from "ioredis";
+
+const LOCK_KEY_PREFIX = "lock:";
+
+/**
+ * Extend the TTL if the lock is still held by this token.
+ * KEYS: lock key
+ * ARGV: token, ttl (ms)
+ */
+const RENEW_SCRIPT = `
+if redis.call("GET", KEYS[1]) == ARGV[1] then
+  return redis.call("PEXPIRE", KEYS[1], ARGV[2])
+end
+return 0
+`;
+
+/**
+ * Delete the lock if it is still held by this token.
+ * KEYS: lock key
+ * ARGV: token
+ */
+const RELEASE_SCRIPT = `
+if redis.call("GET", KEYS[1]) == ARGV[1] then
+  return redis.call("DEL", KEYS[1])
+end
+return 0
+`;
+
+function lockKey(name: string): string {
+  return `${LOCK_KEY_PREFIX}${name}`;
+}
+
+/**
+ * Try to take the lock for `ttlMs`
+ * Returns true if this token now holds it
+ */
+export async function acquireLock(
+  redis: Redis,
+  name: string,
+  token: string,
+  ttlMs: number
+): Promise<boolean> {
+  const result = await redis.set(lockKey(name), token, "PX", ttlMs, "NX");
+  return result === "OK";
+}
+
+/**
+ * Extend a lock held by this token
+ * Returns false if the lock expired or was taken by someone else
+ */
+export async function renewLock(
+  redis: Redis,
+  name: string,
+  token: string,
+  ttlMs: number
+): Promise<boolean> {
+  const renewed = (await redis.eval(RENEW_SCRIPT, 1, lockKey(name), token, ttlMs)) as number;
+  return renewed === 1;
+}
+
+/**
+ * Release a lock held by this token
+ */
+export async function releaseLock(redis: Redis, name: string, token: string): Promise<boolean> {
+  const released = (await redis.eval(RELEASE_SCRIPT, 1, lockKey(name), token)) as number;
+  return released === 1;
+}
@@ -1,57 +1,198 @@
 /**
  * Redis Pub/Sub for Real-time Job Updates
- * Uses separate Redis connections for pub and sub (required by ioredis)
+ * Uses separate Redis connections for pub and sub (required by ioredis). Status changes are
+ * also appended to the tenant's event log (see events.ts) and published with their event id.
+ *
+ * Job updates can go over Redis Streams instead (see streams.ts), chosen with
+ * JOB_EVENTS_TRANSPORT=streams for every publisher and subscriber, or per createPubSub().
  */
 import Redis from "ioredis";
+import {
+  EVENT_LOG_MAX_LENGTH,
+  EVENT_LOG_TTL_MS,
+  eventLogKey,
+  throwPipelineErrors,
+  type JobStatusEvent,
+} from "./events.ts";
+import {
+  DEFAULT_STREAM_TRIM,
+  appendJobEvents,
+  subscribeToJobEventStream,
+  type StreamReadOptions,
+  type StreamTrimPolicy,
+} from "./streams.ts";
+
+/**
+ * How job updates travel from publishers to subscribers
+ * - pubsub: PUBLISH on one channel; subscribers only see what is published while connected
+ * - streams: XADD to a durable, trimmed stream that consumer groups can read
+ */
+export type JobEventTransport = "pubsub" | "streams";
+
+export const JOB_EVENTS_TRANSPORT: JobEventTransport =
+  process.env.JOB_EVENTS_TRANSPORT === "streams" ? "streams" : "pubsub";
 
 const JOB_UPDATES_CHANNEL = "job_updates";
+const JOB_CANCELLATIONS_CHANNEL = "job_cancellations";
+const JOB_LOGS_CHANNEL = "job_logs";
 
-export interface JobUpdateMessage {
+/**
+ * Job status change
+ */
+export interface JobStatusMessage {
+  type?: "JOB_UPDATE";
   tenantId: string;
   jobId: string;
-  status: "PENDING" | "RUNNING" | "COMPLETED" | "FAILED";
+  jobType: string; // Lets subscribers filter by job type without a lookup
+  status:
+    | "PENDING"
+    | "RUNNING"
+    | "COMPLETED"
+    | "FAILED"
+    | "SCHEDULED"
+    | "CANCELLED"
+    | "WAITING";
   error?: string | null;
+  output?: unknown; // Processor output, sent on COMPLETED
+}
+
+/**
+ * Progress reported by a running job's processor
+ */
+export interface JobProgressMessage {
+  type: "JOB_PROGRESS";
+  tenantId: string;
+  jobId: string;
+  jobType: string;
+  percent: number; // 0-100
+  message?: string | null;
+}
+
+export type JobUpdateMessage = JobStatusMessage | JobProgressMessage;
+
+/**
+ * A job update as received: status changes carry their event id
+ */
+export type JobUpdateEvent = JobStatusEvent | JobProgressMessage;
+
+export type JobUpdateHandler = (message: JobUpdateEvent) => void | Promise<void>;
+
+export interface JobCancelMessage {
+  tenantId: string;
+  jobId: string;
+}
+
+export type JobCancelHandler = (message: JobCancelMessage) => void;
+
+/**
+ * Log lines written by a running job
+ */
+export interface JobLogMessage {
+  tenantId: string;
+  jobId: string;
+  lines: {
+    replay: number;
+    attempt: number;
+    line: number;
+    level: "DEBUG" | "INFO" | "WARN" | "ERROR";
+    message: string;
+    timestamp: string; // ISO 8601
+  }[];
 }
 
-export type JobUpdateHandler = (message: JobUpdateMessage) => void;
+export type JobLogHandler = (message: JobLogMessage) => void;
+
+/**
+ * Append a status change to the tenant's event log and publish it with its event id.
+ * Atomic, so events are published in event id order.
+ * KEYS: event log stream
+ * ARGV: message (JSON object), channel, max log length, log ttl (ms)
+ */
+const LOG_AND_PUBLISH_SCRIPT = `
+local id = redis.call("XADD", KEYS[1], "MAXLEN", "~", ARGV[3], "*", "data", ARGV[1])
+redis.call("PEXPIRE", KEYS[1], ARGV[4])
+-- Splice the event id into the message object
+redis.call("PUBLISH", ARGV[2], '{"eventId":"' .. id .. '",' .. string.sub(ARGV[1], 2))
+return id
+`;
+
+function logAndPublishArgs(message: JobStatusMessage): (string | number)[] {
+  return [
+    eventLogKey(message.tenantId),
+    JSON.stringify(message),
+    JOB_UPDATES_CHANNEL,
+    EVENT_LOG_MAX_LENGTH,
+    EVENT_LOG_TTL_MS,
+  ];
+}
 
 /**
- * Publish a job status update
+ * Publish a job status or progress update
+ * Status changes are logged first; progress is only published (the job keeps the latest).
  * @param redis - Redis client (can be shared with other operations)
  * @param message - Job update details
  */
 export async function publishJobUpdate(
   redis: Redis,
   message: JobUpdateMessage
-): Promise<number> {
-  return redis.publish(JOB_UPDATES_CHANNEL, JSON.stringify(message));
+): Promise<void> {
+  await publishJobUpdates(redis, [message]);
 }
 
 /**
- * Subscribe to job updates
- * @param redisUrl - Redis connection URL (creates dedicated subscriber connection)
- * @param handler - Callback for each job update
- * @returns Cleanup function to unsubscribe
+ * Publish several job status updates in one round trip
+ * Throws if Redis rejected any of them; the others still go out.
+ * @param redis - Redis client (can be shared with other operations)
+ * @param messages - Job update details
+ * @param transport - Defaults to JOB_EVENTS_TRANSPORT
+ * @param trim - Trimming of the job event stream (streams transport)
  */
-export function subscribeToJobUpdates(
+export async function publishJobUpdates(
+  redis: Redis,
+  messages: JobUpdateMessage[],
+  transport: JobEventTransport = JOB_EVENTS_TRANSPORT,
+  trim: StreamTrimPolicy = DEFAULT_STREAM_TRIM
+): Promise<void> {
+  if (messages.length === 0) return;
+  if (transport === "streams") {
+    await appendJobEvents(redis, messages, trim);
+    return;
+  }
+
+  const pipeline = redis.pipeline();
+  for (const message of messages) {
+    if (message.type === "JOB_PROGRESS") {
+      pipeline.publish(JOB_UPDATES_CHANNEL, JSON.stringify(message));
+    } else {
+      pipeline.eval(LOG_AND_PUBLISH_SCRIPT, 1, ...logAndPublishArgs(message));
+    }
+  }
+  throwPipelineErrors(await pipeline.exec());
+}
+
+/**
+ * Subscribe to a channel of JSON messages on a dedicated connection
+ */
+function subscribeToChannel<T>(
   redisUrl: string,
-  handler: JobUpdateHandler
+  channel: string,
+  handler: (message: T) => void
 ): () => void {
   // Create dedicated connection for subscriber (ioredis requirement)
   const subscriber = new Redis(redisUrl);
 
-  subscriber.subscribe(JOB_UPDATES_CHANNEL, (err) => {
+  subscriber.subscribe(channel, (err) => {
     if (err) {
       console.error("[Redis] Failed to subscribe:", err);
     } else {
-      console.log(`[Redis] Subscribed to ${JOB_UPDATES_CHANNEL}`);
+      console.log(`[Redis] Subscribed to ${channel}`);
     }
   });
 
-  subscriber.on("message", (channel, message) => {
-    if (channel === JOB_UPDATES_CHANNEL) {
+  subscriber.on("message", (messageChannel, message) => {
+    if (messageChannel === channel) {
       try {
-        const parsed = JSON.parse(message) as JobUpdateMessage;
+        const parsed = JSON.parse(message) as T;
         handler(parsed);
       } catch (err) {
         console.error("[Redis] Failed to parse message:", err);
@@ -61,27 +202,127 @@ export function subscribeToJobUpdates(
 
   // Return cleanup function
   return () => {
-    subscriber.unsubscribe(JOB_UPDATES_CHANNEL);
+    subscriber.unsubscribe(channel);
     subscriber.quit();
   };
 }
 
+/**
+ * Subscribe to job updates
+ * @param redisUrl - Redis connection URL (creates dedicated subscriber connection)
+ * @param handler - Callback for each job update
+ * @param transport - Defaults to JOB_EVENTS_TRANSPORT
+ * @param options - Consumer group to read with (streams transport)
+ * @returns Cleanup function to unsubscribe
+ */
+export function subscribeToJobUpdates(
+  redisUrl: string,
+  handler: JobUpdateHandler,
+  transport: JobEventTransport = JOB_EVENTS_TRANSPORT,
+  options: StreamReadOptions = {}
+): () => void {
+  if (transport === "streams") {
+    return subscribeToJobEventStream(
+      redisUrl,
+      ({ envelope, eventId }) => {
+        if (envelope.type === "JOB_PROGRESS") {
+          return handler({ type: "JOB_PROGRESS", ...envelope.data });
+        }
+        // Status changes are logged on append, so they always have an event id
+        if (eventId) return handler({ type: "JOB_UPDATE", ...envelope.data, eventId });
+      },
+      options
+    );
+  }
+
+  return subscribeToChannel<JobUpdateEvent>(redisUrl, JOB_UPDATES_CHANNEL, (message) => {
+    Promise.resolve(handler(message)).catch((error) =>
+      console.error("[Redis] Job update handler failed:", error)
+    );
+  });
+}
+
+/**
+ * Signal workers to abort a cancelled job that may be running
+ * @param redis - Redis client (can be shared with other operations)
+ * @param message - Cancelled job
+ */
+export async function publishJobCancel(
+  redis: Redis,
+  message: JobCancelMessage
+): Promise<number> {
+  return redis.publish(JOB_CANCELLATIONS_CHANNEL, JSON.stringify(message));
+}
+
+/**
+ * Subscribe to job cancellations (workers abort the job if they are running it)
+ * @param redisUrl - Redis connection URL (creates dedicated subscriber connection)
+ * @param handler - Callback for each cancelled job
+ * @returns Cleanup function to unsubscribe
+ */
+export function subscribeToJobCancels(
+  redisUrl: string,
+  handler: JobCancelHandler
+): () => void {
+  return subscribeToChannel(redisUrl, JOB_CANCELLATIONS_CHANNEL, handler);
+}
+
+/**
+ * Publish log lines of a running job (for live tailing)
+ * @param redis - Redis client (can be shared with other operations)
+ * @param message - Job and its new log lines
+ */
+export async function publishJobLogs(
+  redis: Redis,
+  message: JobLogMessage
+): Promise<number> {
+  return redis.publish(JOB_LOGS_CHANNEL, JSON.stringify(message));
+}
+
+/**
+ * Subscribe to job log lines
+ * @param redisUrl - Redis connection URL (creates dedicated subscriber connection)
+ * @param handler - Callback for each batch of log lines
+ * @returns Cleanup function to unsubscribe
+ */
+export function subscribeToJobLogs(
+  redisUrl: string,
+  handler: JobLogHandler
+): () => void {
+  return subscribeToChannel(redisUrl, JOB_LOGS_CHANNEL, handler);
+}
+
+/**
+ * Options for createPubSub
+ */
+export interface PubSubOptions {
+  transport?: JobEventTransport; // Defaults to JOB_EVENTS_TRANSPORT
+  trim?: StreamTrimPolicy; // Trimming of the job event stream (streams transport)
+}
+
 /**
  * Create a pub/sub helper with shared publisher
  */
-export function createPubSub(redisUrl: string) {
+export function createPubSub(redisUrl: string, options: PubSubOptions = {}) {
   const publisher = new Redis(redisUrl);
+  const { transport = JOB_EVENTS_TRANSPORT, trim = DEFAULT_STREAM_TRIM } = options;
 
   return {
+    transport,
+
     /**
      * Publish a job update
      */
-    publish: (message: JobUpdateMessage) => publishJobUpdate(publisher, message),
+    publish: (message: JobUpdateMessage) =>
+      publishJobUpdates(publisher, [message], transport, trim),
 
     /**
      * Subscribe to job updates
+     * With the streams transport, a consumer group reads durably: each event goes to one
+     * consumer of the group and is acknowledged once the handler resolves.
      */
-    subscribe: (handler: JobUpdateHandler) => subscribeToJobUpdates(redisUrl, handler),
+    subscribe: (handler: JobUpdateHandler, readOptions?: StreamReadOptions) =>
+      subscribeToJobUpdates(redisUrl, handler, transport, readOptions),
 
     /**
      * Close the publisher connection
@@ -1,64 +1,581 @@
 /**
  * Redis Job Queue Operations
- * Uses a Redis LIST for FIFO queue (LPUSH + RPOP)
+ * Uses one Redis LIST per priority and tenant for FIFO queues (LPUSH + RPOP)
+ *
+ * Priorities:
+ * - Pops always drain HIGH before NORMAL before LOW
+ * - Optionally, every Nth pop serves the lowest non-empty priority first,
+ *   so a steady stream of high priority jobs can't starve low priority ones
+ *
+ * Tenant fairness:
+ * - Within a priority, tenants with queued jobs form a ring
+ * - The tenant at the head of the ring is served `weight` jobs in a row
+ *   (weighted round-robin), then moves to the back
+ * - Weights are stored in Redis and can be changed at runtime
+ *
+ * Reliable delivery:
+ * - Popped IDs are moved atomically into a per-worker processing list
+ * - Each in-flight ID gets a visibility deadline in a sorted set
+ * - Workers acknowledge IDs when done (or extend the deadline while busy)
+ * - A reaper puts IDs whose deadline expired back on their queue
+ *
+ * Standalone Redis only: the scripts find tenant queues through the rings at run time, so
+ * they touch keys not declared in KEYS (and not in one hash slot). Redis Cluster rejects
+ * that; use a single primary (with replicas or Sentinel for failover).
+ *
+ * Upgrading: IDs left in the single `job_queue` list used before priorities are moved
+ * onto their tenant's queue with readLegacyQueue + moveLegacyQueuedJobs.
  */
 import type { Redis } from "ioredis";
 
-const JOB_QUEUE_KEY = "job_queue";
+export const JOB_QUEUE_KEY = "job_queue";
+const TENANT_RING_KEY = "job_tenants";
+const TENANT_WEIGHTS_KEY = "tenant_weights";
+const PROCESSING_KEY_PREFIX = "job_processing:";
+const INFLIGHT_DEADLINES_KEY = "job_inflight";
+const INFLIGHT_OWNERS_KEY = "job_inflight:owners";
+const INFLIGHT_ROUTES_KEY = "job_inflight:routes";
+const POP_COUNTER_KEY = "job_queue:pops";
 
 /**
- * Push a job ID to the queue
+ * Queue priorities, highest first
+ */
+export const QUEUE_PRIORITIES = ["HIGH", "NORMAL", "LOW"] as const;
+
+export type QueuePriority = (typeof QUEUE_PRIORITIES)[number];
+
+export const DEFAULT_PRIORITY: QueuePriority = "NORMAL";
+
+// Jobs a tenant is served in a row when no weight is configured
+export const DEFAULT_TENANT_WEIGHT = 1;
+
+// How often a blocking pop re-checks the queues while waiting
+const POP_POLL_INTERVAL_MS = 200;
+
+// Default time a worker may hold a job before it is considered lost
+export const DEFAULT_VISIBILITY_TIMEOUT_MS = 60_000;
+
+/**
+ * Which queue a job belongs to
+ */
+export interface JobRoute {
+  tenantId: string;
+  priority?: QueuePriority;
+}
+
+/**
+ * A job ID together with its route
+ */
+export interface QueuedJob extends JobRoute {
+  jobId: string;
+}
+
+/**
+ * Lua helpers shared by every script that touches the queues.
+ * A route is stored as "<priority>:<tenantId>" wherever a job leaves its queue
+ * (in flight, delayed) so it can be put back on the right one.
+ * Queue, ring and processing keys are built here rather than passed in KEYS
+ * (standalone Redis only, see above).
+ */
+export const QUEUE_LUA = `
+local QUEUE_PREFIX = "${JOB_QUEUE_KEY}"
+local RING_PREFIX = "${TENANT_RING_KEY}"
+local WEIGHTS_KEY = "${TENANT_WEIGHTS_KEY}"
+
+local function tenant_queue(priority, tenant)
+  return QUEUE_PREFIX .. ":" .. priority .. ":" .. tenant
+end
+
+local function parse_route(route)
+  return string.match(route, "^([^:]+):(.*)$")
+end
+
+local function enqueue(priority, tenant, jobId, front)
+  local queue = tenant_queue(priority, tenant)
+  if front then
+    redis.call("RPUSH", queue, jobId)
+  else
+    redis.call("LPUSH", queue, jobId)
+  end
+  local ring = RING_PREFIX .. ":" .. priority
+  if redis.call("SADD", ring .. ":active", tenant) == 1 then
+    redis.call("RPUSH", ring, tenant)
+  end
+end
+
+local function dequeue(priority)
+  local ring = RING_PREFIX .. ":" .. priority
+  local active = ring .. ":active"
+  local credits = ring .. ":credits"
+
+  for _ = 1, redis.call("LLEN", ring) do
+    local tenant = redis.call("LINDEX", ring, 0)
+    if not tenant then
+      return false
+    end
+
+    local queue = tenant_queue(priority, tenant)
+    local jobId = redis.call("RPOP", queue)
+
+    if jobId then
+      local left = tonumber(redis.call("HGET", credits, tenant))
+        or tonumber(redis.call("HGET", WEIGHTS_KEY, tenant))
+        or ${DEFAULT_TENANT_WEIGHT}
+      left = left - 1
+
+      if redis.call("LLEN", queue) == 0 then
+        redis.call("LPOP", ring)
+        redis.call("SREM", active, tenant)
+        redis.call("HDEL", credits, tenant)
+      elseif left <= 0 then
+        redis.call("LMOVE", ring, ring, "LEFT", "RIGHT")
+        redis.call("HDEL", credits, tenant)
+      else
+        redis.call("HSET", credits, tenant, left)
+      end
+
+      return jobId, tenant
+    end
+
+    -- Tenant ran dry (e.g. a job was removed); drop it from the ring
+    redis.call("LPOP", ring)
+    redis.call("SREM", active, tenant)
+    redis.call("HDEL", credits, tenant)
+  end
+
+  return false
+end
+`;
+
+/**
+ * Push jobs onto their tenant's queue.
+ * ARGV: (jobId, priority, tenantId) triples
+ */
+const PUSH_SCRIPT = `${QUEUE_LUA}
+for i = 1, #ARGV, 3 do
+  enqueue(ARGV[i + 1], ARGV[i + 2], ARGV[i], false)
+end
+return #ARGV / 3
+`;
+
+/**
+ * Move IDs out of the legacy single queue, enqueueing those that still have a route.
+ * An ID another worker already moved is skipped.
+ * KEYS: legacy queue
+ * ARGV: (jobId, priority, tenantId) triples, oldest first ("" priority = drop the ID)
+ */
+const MOVE_LEGACY_SCRIPT = `${QUEUE_LUA}
+local moved = 0
+for i = 1, #ARGV, 3 do
+  if redis.call("LREM", KEYS[1], 1, ARGV[i]) > 0 and ARGV[i + 1] ~= "" then
+    enqueue(ARGV[i + 1], ARGV[i + 2], ARGV[i], false)
+    moved = moved + 1
+  end
+end
+return moved
+`;
+
+/**
+ * Atomically pop up to `count` IDs, highest priority first and fairly across
+ * tenants, recording each in the worker's processing list with a visibility deadline.
+ * KEYS: processing list, deadlines zset, owners hash, routes hash, pop counter
+ * ARGV: workerId, deadline (ms), count, anti-starvation interval (0 = off),
+ *       priorities (highest first)...
+ */
+const RELIABLE_POP_SCRIPT = `${QUEUE_LUA}
+local priorities = {}
+for i = 5, #ARGV do
+  priorities[#priorities + 1] = ARGV[i]
+end
+local reversed = {}
+for i = #priorities, 1, -1 do
+  reversed[#reversed + 1] = priorities[i]
+end
+
+local interval = tonumber(ARGV[4])
+local popped = {}
+
+for _ = 1, tonumber(ARGV[3]) do
+  local order = priorities
+  if interval > 0 and redis.call("INCR", KEYS[5]) % interval == 0 then
+    order = reversed
+  end
+
+  local jobId = false
+  for _, priority in ipairs(order) do
+    local tenant
+    jobId, tenant = dequeue(priority)
+    if jobId then
+      redis.call("LPUSH", KEYS[1], jobId)
+      redis.call("ZADD", KEYS[2], ARGV[2], jobId)
+      redis.call("HSET", KEYS[3], jobId, ARGV[1])
+      redis.call("HSET", KEYS[4], jobId, priority .. ":" .. tenant)
+      popped[#popped + 1] = jobId
+      break
+    end
+  end
+
+  if not jobId then
+    break
+  end
+end
+
+return popped
+`;
+
+/**
+ * Remove an in-flight ID, but only if it is still owned by this worker
+ * (the reaper may already have handed it to someone else).
+ * KEYS: processing list, deadlines zset, owners hash, routes hash
+ * ARGV: workerId, jobId
+ */
+const ACK_SCRIPT = `
+local removed = redis.call("LREM", KEYS[1], 0, ARGV[2])
+if redis.call("HGET", KEYS[3], ARGV[2]) == ARGV[1] then
+  redis.call("ZREM", KEYS[2], ARGV[2])
+  redis.call("HDEL", KEYS[3], ARGV[2])
+  redis.call("HDEL", KEYS[4], ARGV[2])
+end
+return removed
+`;
+
+/**
+ * Push a new visibility deadline for an ID owned by this worker.
+ * KEYS: deadlines zset, owners hash
+ * ARGV: workerId, jobId, deadline (ms)
+ */
+const EXTEND_SCRIPT = `
+if redis.call("HGET", KEYS[2], ARGV[2]) ~= ARGV[1] then
+  return 0
+end
+redis.call("ZADD", KEYS[1], "XX", ARGV[3], ARGV[2])
+return 1
+`;
+
+/**
+ * Requeue every in-flight ID whose deadline has passed, at the front of its queue.
+ * IDs without a route are dropped from flight (the database still has them).
+ * KEYS: deadlines zset, owners hash, routes hash
+ * ARGV: now (ms), processing key prefix, max IDs to reap
+ */
+const REAP_SCRIPT = `${QUEUE_LUA}
+local expired = redis.call("ZRANGEBYSCORE", KEYS[1], "-inf", ARGV[1], "LIMIT", 0, tonumber(ARGV[3]))
+for _, jobId in ipairs(expired) do
+  local owner = redis.call("HGET", KEYS[2], jobId)
+  if owner then
+    redis.call("LREM", ARGV[2] .. owner, 0, jobId)
+  end
+  local route = redis.call("HGET", KEYS[3], jobId)
+  redis.call("ZREM", KEYS[1], jobId)
+  redis.call("HDEL", KEYS[2], jobId)
+  redis.call("HDEL", KEYS[3], jobId)
+  if route then
+    local priority, tenant = parse_route(route)
+    enqueue(priority, tenant, jobId, true)
+  end
+end
+return expired
+`;
+
+function processingKey(workerId: string): string {
+  return `${PROCESSING_KEY_PREFIX}${workerId}`;
+}
+
+function ringKey(priority: QueuePriority): string {
+  return `${TENANT_RING_KEY}:${priority}`;
+}
+
+/**
+ * Redis key of the list holding one tenant's jobs of one priority
+ */
+export function tenantQueueKey(priority: QueuePriority, tenantId: string): string {
+  return `${JOB_QUEUE_KEY}:${priority}:${tenantId}`;
+}
+
+/**
+ * Encode a route the way the Lua helpers store it
+ */
+export function encodeRoute({ tenantId, priority = DEFAULT_PRIORITY }: JobRoute): string {
+  return `${priority}:${tenantId}`;
+}
+
+/**
+ * Push a job ID to its tenant's queue
  * Jobs are added to the left (LPUSH) and processed from the right (RPOP)
  */
-export async function pushJob(redis: Redis, jobId: string): Promise<number> {
-  return redis.lpush(JOB_QUEUE_KEY, jobId);
+export async function pushJob(redis: Redis, jobId: string, route: JobRoute): Promise<number> {
+  return pushJobs(redis, [{ jobId, ...route }]);
+}
+
+/**
+ * Remove a waiting job ID from its tenant's queue (e.g. when the job is cancelled)
+ * Returns true if it was queued. A tenant left with an empty queue is dropped
+ * from the ring on its next turn.
+ */
+export async function removeQueuedJob(
+  redis: Redis,
+  jobId: string,
+  { tenantId, priority = DEFAULT_PRIORITY }: JobRoute
+): Promise<boolean> {
+  const removed = await redis.lrem(tenantQueueKey(priority, tenantId), 0, jobId);
+  return removed > 0;
+}
+
+/**
+ * Push multiple job IDs (any mix of tenants and priorities) to the queue
+ */
+export async function pushJobs(redis: Redis, jobs: QueuedJob[]): Promise<number> {
+  if (jobs.length === 0) return 0;
+  const args = jobs.flatMap(({ jobId, tenantId, priority = DEFAULT_PRIORITY }) => [
+    jobId,
+    priority,
+    tenantId,
+  ]);
+  return (await redis.eval(PUSH_SCRIPT, 0, ...args)) as number;
+}
+
+/**
+ * Oldest job IDs still in the legacy single queue (`job_queue`, used before priorities)
+ */
+export async function readLegacyQueue(redis: Redis, count: number): Promise<string[]> {
+  const jobIds = await redis.lrange(JOB_QUEUE_KEY, -count, -1);
+  return jobIds.reverse();
 }
 
 /**
- * Push multiple job IDs to the queue
+ * Move IDs read with readLegacyQueue onto their tenant's queue, keeping their order
+ * IDs missing from `jobs` (e.g. no longer pending) are only removed from the legacy queue.
+ * Returns the number of IDs enqueued.
  */
-export async function pushJobs(redis: Redis, jobIds: string[]): Promise<number> {
+export async function moveLegacyQueuedJobs(
+  redis: Redis,
+  jobIds: string[],
+  jobs: QueuedJob[]
+): Promise<number> {
   if (jobIds.length === 0) return 0;
-  return redis.lpush(JOB_QUEUE_KEY, ...jobIds);
+  const routes = new Map(jobs.map((job) => [job.jobId, job]));
+  const args = jobIds.flatMap((jobId) => {
+    const route = routes.get(jobId);
+    return route ? [jobId, route.priority ?? DEFAULT_PRIORITY, route.tenantId] : [jobId, "", ""];
+  });
+  return (await redis.eval(MOVE_LEGACY_SCRIPT, 1, JOB_QUEUE_KEY, ...args)) as number;
 }
 
 /**
- * Pop a single job ID from the queue (blocking)
+ * Options for a reliable pop
+ */
+export interface PopOptions {
+  /** Seconds to wait for a job before returning null */
+  timeout?: number;
+  /** How long the worker may hold the job before the reaper requeues it */
+  visibilityTimeoutMs?: number;
+  /** Every Nth pop serves the lowest non-empty priority first (0 disables) */
+  antiStarvationInterval?: number;
+}
+
+/**
+ * Run the pop script for up to `count` jobs
+ */
+async function reliablePop(
+  redis: Redis,
+  workerId: string,
+  count: number,
+  visibilityTimeoutMs: number,
+  antiStarvationInterval: number
+): Promise<string[]> {
+  return (await redis.eval(
+    RELIABLE_POP_SCRIPT,
+    5,
+    processingKey(workerId),
+    INFLIGHT_DEADLINES_KEY,
+    INFLIGHT_OWNERS_KEY,
+    INFLIGHT_ROUTES_KEY,
+    POP_COUNTER_KEY,
+    workerId,
+    Date.now() + visibilityTimeoutMs,
+    count,
+    antiStarvationInterval,
+    ...QUEUE_PRIORITIES
+  )) as string[];
+}
+
+/**
+ * Pop a single job ID from the queues into the worker's processing list
  * Waits up to `timeout` seconds for a job
  * Returns null if timeout expires
+ *
+ * The ID stays in flight until `ackJob` is called for it.
+ */
+export async function popJob(
+  redis: Redis,
+  workerId: string,
+  options: PopOptions = {}
+): Promise<string | null> {
+  const {
+    timeout = 5,
+    visibilityTimeoutMs = DEFAULT_VISIBILITY_TIMEOUT_MS,
+    antiStarvationInterval = 0,
+  } = options;
+  const waitUntil = Date.now() + timeout * 1000;
+
+  while (true) {
+    const [jobId] = await reliablePop(
+      redis,
+      workerId,
+      1,
+      visibilityTimeoutMs,
+      antiStarvationInterval
+    );
+
+    if (jobId) return jobId;
+    if (Date.now() >= waitUntil) return null;
+
+    await new Promise((resolve) => setTimeout(resolve, POP_POLL_INTERVAL_MS));
+  }
+}
+
+/**
+ * Pop multiple job IDs from the queues into the worker's processing list (non-blocking)
+ * Returns up to `count` jobs immediately available, highest priority first
  */
-export async function popJob(redis: Redis, timeout: number = 5): Promise<string | null> {
-  const result = await redis.brpop(JOB_QUEUE_KEY, timeout);
-  return result ? result[1] : null;
+export async function popJobs(
+  redis: Redis,
+  workerId: string,
+  count: number,
+  options: Omit<PopOptions, "timeout"> = {}
+): Promise<string[]> {
+  const { visibilityTimeoutMs = DEFAULT_VISIBILITY_TIMEOUT_MS, antiStarvationInterval = 0 } =
+    options;
+  if (count <= 0) return [];
+  return reliablePop(redis, workerId, count, visibilityTimeoutMs, antiStarvationInterval);
 }
 
 /**
- * Pop multiple job IDs from the queue (non-blocking)
- * Returns up to `count` jobs immediately available
+ * Acknowledge a job: remove it from the worker's processing list
+ * Call once the worker is done with the ID (completed, failed or requeued)
  */
-export async function popJobs(redis: Redis, count: number): Promise<string[]> {
-  const pipeline = redis.pipeline();
-  for (let i = 0; i < count; i++) {
-    pipeline.rpop(JOB_QUEUE_KEY);
+export async function ackJob(redis: Redis, workerId: string, jobId: string): Promise<boolean> {
+  const removed = (await redis.eval(
+    ACK_SCRIPT,
+    4,
+    processingKey(workerId),
+    INFLIGHT_DEADLINES_KEY,
+    INFLIGHT_OWNERS_KEY,
+    INFLIGHT_ROUTES_KEY,
+    workerId,
+    jobId
+  )) as number;
+  return removed > 0;
+}
+
+/**
+ * Extend the visibility deadline of a job the worker is still processing
+ * Returns false if the job is no longer owned by this worker
+ */
+export async function extendJobVisibility(
+  redis: Redis,
+  workerId: string,
+  jobId: string,
+  visibilityTimeoutMs: number = DEFAULT_VISIBILITY_TIMEOUT_MS
+): Promise<boolean> {
+  const extended = (await redis.eval(
+    EXTEND_SCRIPT,
+    2,
+    INFLIGHT_DEADLINES_KEY,
+    INFLIGHT_OWNERS_KEY,
+    workerId,
+    jobId,
+    Date.now() + visibilityTimeoutMs
+  )) as number;
+  return extended === 1;
+}
+
+/**
+ * Requeue in-flight jobs whose visibility deadline has expired
+ * (e.g. the worker holding them crashed)
+ * Returns the requeued job IDs
+ */
+export async function reapExpiredJobs(redis: Redis, limit: number = 100): Promise<string[]> {
+  return (await redis.eval(
+    REAP_SCRIPT,
+    3,
+    INFLIGHT_DEADLINES_KEY,
+    INFLIGHT_OWNERS_KEY,
+    INFLIGHT_ROUTES_KEY,
+    Date.now(),
+    PROCESSING_KEY_PREFIX,
+    limit
+  )) as string[];
+}
+
+/**
+ * Get the job IDs a worker currently holds
+ */
+export async function getInFlightJobs(redis: Redis, workerId: string): Promise<string[]> {
+  return redis.lrange(processingKey(workerId), 0, -1);
+}
+
+/**
+ * Tenants that currently have queued jobs of a priority
+ */
+export async function getActiveTenants(redis: Redis, priority: QueuePriority): Promise<string[]> {
+  return redis.smembers(`${ringKey(priority)}:active`);
+}
+
+/**
+ * Get the number of queued jobs, optionally for one priority and/or tenant
+ */
+export async function getQueueLength(
+  redis: Redis,
+  filter: { priority?: QueuePriority; tenantId?: string } = {}
+): Promise<number> {
+  const priorities = filter.priority ? [filter.priority] : QUEUE_PRIORITIES;
+  let total = 0;
+
+  for (const priority of priorities) {
+    const tenants = filter.tenantId ? [filter.tenantId] : await getActiveTenants(redis, priority);
+    const lengths = await Promise.all(
+      tenants.map((tenantId) => redis.llen(tenantQueueKey(priority, tenantId)))
+    );
+    total += lengths.reduce((sum, length) => sum + length, 0);
   }
-  const results = await pipeline.exec();
-  if (!results) return [];
-  
-  return results
-    .map(([err, value]) => (err ? null : value))
-    .filter((v): v is string => v !== null);
+
+  return total;
 }
 
 /**
- * Get the number of jobs in the queue
+ * Set how many jobs in a row a tenant is served before the next tenant's turn
  */
-export async function getQueueLength(redis: Redis): Promise<number> {
-  return redis.llen(JOB_QUEUE_KEY);
+export async function setTenantWeight(redis: Redis, tenantId: string, weight: number): Promise<void> {
+  await redis.hset(TENANT_WEIGHTS_KEY, tenantId, weight);
 }
 
 /**
- * Clear all jobs from the queue (use with caution!)
+ * Get a tenant's scheduling weight
+ */
+export async function getTenantWeight(redis: Redis, tenantId: string): Promise<number> {
+  const weight = await redis.hget(TENANT_WEIGHTS_KEY, tenantId);
+  return weight ? Number(weight) : DEFAULT_TENANT_WEIGHT;
+}
+
+/**
+ * Reset a tenant to the default weight
+ */
+export async function clearTenantWeight(redis: Redis, tenantId: string): Promise<void> {
+  await redis.hdel(TENANT_WEIGHTS_KEY, tenantId);
+}
+
+/**
+ * Clear all jobs from the queues (use with caution!)
  */
 export async function clearQueue(redis: Redis): Promise<void> {
-  await redis.del(JOB_QUEUE_KEY);
+  for (const priority of QUEUE_PRIORITIES) {
+    const tenants = await getActiveTenants(redis, priority);
+    await redis.del(
+      ...tenants.map((tenantId) => tenantQueueKey(priority, tenantId)),
+      ringKey(priority),
+      `${ringKey(priority)}:active`,
+      `${ringKey(priority)}:credits`
+    );
+  }
 }
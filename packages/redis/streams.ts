@@ -0,0 +1,270 @@
+/**
+ * Redis Streams Transport for Job Events
+ * An alternative to Pub/Sub: job events are appended to one durable stream as versioned,
+ * Zod-validated envelopes. Readers without a consumer group (API replicas fanning out to
+ * WebSockets) see every new event; consumer groups (billing, analytics) share the events
+ * between their consumers, acknowledge them and pick up where they left off after a restart.
+ */
+import { randomUUID } from "crypto";
+import { hostname } from "os";
+import Redis from "ioredis";
+import {
+  JOB_EVENT_VERSION,
+  JobEventEnvelopeSchema,
+  type JobEventEnvelope,
+} from "@repo/types";
+import {
+  EVENT_LOG_MAX_LENGTH,
+  EVENT_LOG_TTL_MS,
+  eventLogKey,
+  throwPipelineErrors,
+} from "./events.ts";
+import type { JobUpdateMessage } from "./pubsub.ts";
+
+export const JOB_EVENT_STREAM = "job_event_stream";
+
+const READ_BATCH_SIZE = 100;
+const READ_BLOCK_MS = 5000; // Max time one blocking read waits for new events
+const READ_RETRY_DELAY_MS = 1000; // Pause after a failed read before trying again
+
+/**
+ * How the job event stream is trimmed on every append (approximately, for speed)
+ */
+export interface StreamTrimPolicy {
+  maxLength: number; // Events kept at most
+  maxAgeMs?: number; // Events older than this are dropped too
+}
+
+export const DEFAULT_STREAM_TRIM: StreamTrimPolicy = {
+  maxLength: 100_000,
+  maxAgeMs: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * A job event read from the stream
+ */
+export interface JobStreamEvent {
+  entryId: string; // Stream entry id (per stream, unlike eventId)
+  eventId: string | null; // Event id in the tenant's event log (status changes only)
+  envelope: JobEventEnvelope;
+}
+
+/**
+ * Reading options; without a group, only events appended after subscribing are read
+ */
+export interface StreamReadOptions {
+  group?: string; // Consumer group (created at the end of the stream if missing)
+  consumer?: string; // Consumer name within the group (default: host and process id)
+}
+
+export type JobStreamHandler = (event: JobStreamEvent) => void | Promise<void>;
+
+/**
+ * Append a job event to the stream, logging status changes in the tenant's event log first.
+ * KEYS: tenant event log, job event stream
+ * ARGV: status message (JSON, "" for progress), envelope (JSON), log max length, log ttl (ms),
+ *       stream max length, stream min id ("" for no age limit)
+ */
+const APPEND_SCRIPT = `
+local eventId = ""
+if ARGV[1] ~= "" then
+  eventId = redis.call("XADD", KEYS[1], "MAXLEN", "~", ARGV[3], "*", "data", ARGV[1])
+  redis.call("PEXPIRE", KEYS[1], ARGV[4])
+end
+redis.call("XADD", KEYS[2], "MAXLEN", "~", ARGV[5], "*", "envelope", ARGV[2], "eventId", eventId)
+if ARGV[6] ~= "" then
+  redis.call("XTRIM", KEYS[2], "MINID", "~", ARGV[6])
+end
+return eventId
+`;
+
+/**
+ * Wrap a job update in a versioned envelope; null if it doesn't match the schema
+ */
+export function toJobEventEnvelope(message: JobUpdateMessage): JobEventEnvelope | null {
+  const { type, ...data } = message;
+  const result = JobEventEnvelopeSchema.safeParse({
+    version: JOB_EVENT_VERSION,
+    id: randomUUID(),
+    occurredAt: new Date().toISOString(),
+    type: type ?? "JOB_UPDATE",
+    data,
+  });
+  if (!result.success) {
+    console.error(`[Redis] Invalid job event for job ${message.jobId}:`, result.error.message);
+    return null;
+  }
+  return result.data;
+}
+
+/**
+ * Append job updates to the job event stream in one round trip
+ * Updates that don't make a valid envelope are logged and skipped; the rest still go out.
+ * Throws if Redis rejected any of them.
+ */
+export async function appendJobEvents(
+  redis: Redis,
+  messages: JobUpdateMessage[],
+  trim: StreamTrimPolicy = DEFAULT_STREAM_TRIM
+): Promise<void> {
+  if (messages.length === 0) return;
+
+  const minId = trim.maxAgeMs !== undefined ? `${Date.now() - trim.maxAgeMs}-0` : "";
+  const pipeline = redis.pipeline();
+  for (const message of messages) {
+    const envelope = toJobEventEnvelope(message);
+    if (!envelope) continue;
+
+    pipeline.eval(
+      APPEND_SCRIPT,
+      2,
+      eventLogKey(message.tenantId),
+      JOB_EVENT_STREAM,
+      message.type === "JOB_PROGRESS" ? "" : JSON.stringify(message),
+      JSON.stringify(envelope),
+      EVENT_LOG_MAX_LENGTH,
+      EVENT_LOG_TTL_MS,
+      trim.maxLength,
+      minId
+    );
+  }
+  throwPipelineErrors(await pipeline.exec());
+}
+
+type StreamEntries = [entryId: string, fields: string[]][];
+type StreamReadResult = [stream: string, entries: StreamEntries][] | null;
+
+/**
+ * Parse and validate a stream entry; null if it isn't a supported envelope
+ */
+function parseStreamEntry(entryId: string, fields: string[]): JobStreamEvent | null {
+  const values = new Map<string, string>();
+  for (let i = 0; i + 1 < fields.length; i += 2) {
+    values.set(fields[i]!, fields[i + 1]!);
+  }
+
+  try {
+    const result = JobEventEnvelopeSchema.safeParse(JSON.parse(values.get("envelope") ?? ""));
+    if (!result.success) {
+      console.error(`[Redis] Invalid job event ${entryId}:`, result.error.message);
+      return null;
+    }
+    return { entryId, eventId: values.get("eventId") || null, envelope: result.data };
+  } catch {
+    console.error(`[Redis] Failed to parse job event ${entryId}`);
+    return null;
+  }
+}
+
+/**
+ * Read job events from the stream, with or without a consumer group
+ * In a group, an event is acknowledged once the handler resolves; if it throws, the event stays
+ * pending and is read again when the consumer restarts. Invalid events are skipped (and
+ * acknowledged).
+ * @param redisUrl - Redis connection URL (creates a dedicated connection for blocking reads)
+ * @param handler - Callback for each event, in stream order
+ * @returns Cleanup function to stop reading
+ */
+export function subscribeToJobEventStream(
+  redisUrl: string,
+  handler: JobStreamHandler,
+  options: StreamReadOptions = {}
+): () => void {
+  const reader = new Redis(redisUrl);
+  const { group } = options;
+  const consumer = options.consumer ?? `${hostname()}-${process.pid}`;
+  let stopped = false;
+
+  async function start(): Promise<string> {
+    if (group) {
+      try {
+        await reader.xgroup("CREATE", JOB_EVENT_STREAM, group, "$", "MKSTREAM");
+        console.log(`[Redis] Created consumer group ${group} on ${JOB_EVENT_STREAM}`);
+      } catch (error) {
+        if (!String(error).includes("BUSYGROUP")) throw error;
+      }
+      return "0"; // This consumer's unacknowledged events first
+    }
+
+    // Resume after the current last entry ("$" would skip events between two reads)
+    const [last] = await reader.xrevrange(JOB_EVENT_STREAM, "+", "-", "COUNT", 1);
+    return last?.[0] ?? "0-0";
+  }
+
+  async function read(cursor: string): Promise<StreamEntries> {
+    const result = (
+      group
+        ? await reader.xreadgroup(
+            "GROUP",
+            group,
+            consumer,
+            "COUNT",
+            READ_BATCH_SIZE,
+            "BLOCK",
+            READ_BLOCK_MS,
+            "STREAMS",
+            JOB_EVENT_STREAM,
+            cursor
+          )
+        : await reader.xread(
+            "COUNT",
+            READ_BATCH_SIZE,
+            "BLOCK",
+            READ_BLOCK_MS,
+            "STREAMS",
+            JOB_EVENT_STREAM,
+            cursor
+          )
+    ) as StreamReadResult;
+    return result?.[0]?.[1] ?? [];
+  }
+
+  async function run(): Promise<void> {
+    let cursor: string | null = null;
+
+    while (!stopped) {
+      try {
+        if (cursor === null) {
+          cursor = await start();
+          console.log(
+            `[Redis] Reading ${JOB_EVENT_STREAM}${group ? ` as ${group}/${consumer}` : ""}`
+          );
+        }
+
+        const entries = await read(cursor);
+
+        // Pending events all handled - continue with new ones
+        if (group && cursor !== ">" && entries.length === 0) {
+          cursor = ">";
+          continue;
+        }
+
+        for (const [entryId, fields] of entries) {
+          const event = parseStreamEntry(entryId, fields);
+          let handled = true;
+          if (event) {
+            try {
+              await handler(event);
+            } catch (error) {
+              handled = false;
+              console.error(`[Redis] Job event handler failed for ${entryId}:`, error);
+            }
+          }
+          if (group && handled) await reader.xack(JOB_EVENT_STREAM, group, entryId);
+          if (cursor !== ">") cursor = entryId;
+        }
+      } catch (error) {
+        if (stopped) return;
+        console.error("[Redis] Failed to read job events:", error);
+        await new Promise((resolve) => setTimeout(resolve, READ_RETRY_DELAY_MS));
+      }
+    }
+  }
+
+  void run();
+
+  return () => {
+    stopped = true;
+    reader.disconnect();
+  };
+}
@@ -0,0 +1,53 @@
+/**
+ * Cron expression and payload template helpers for recurring jobs
+ */
+import { CronExpressionParser } from "cron-parser";
+
+/**
+ * Check that a timezone is a valid IANA name (e.g. "Europe/Berlin")
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check that a cron expression can be parsed
+ */
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    CronExpressionParser.parse(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Next time a cron expression fires strictly after `from`
+ */
+export function getNextCronRun(expression: string, timezone: string, from: Date = new Date()): Date {
+  return CronExpressionParser.parse(expression, { tz: timezone, currentDate: from }).next().toDate();
+}
+
+/**
+ * Replace "{{name}}" placeholders in every string of a payload template
+ */
+export function renderPayloadTemplate(value: unknown, vars: Record<string, string>): unknown {
+  if (typeof value === "string") {
+    return value.replace(/\{\{(\w+)\}\}/g, (match, name: string) => vars[name] ?? match);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => renderPayloadTemplate(item, vars));
+  }
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, renderPayloadTemplate(item, vars)])
+    );
+  }
+  return value;
+}
@@ -10,21 +10,84 @@ export const JobStatus = {
   RUNNING: "RUNNING",
   COMPLETED: "COMPLETED",
   FAILED: "FAILED",
+  SCHEDULED: "SCHEDULED",
+  CANCELLED: "CANCELLED",
+  WAITING: "WAITING",
 } as const;
 
 export type JobStatus = (typeof JobStatus)[keyof typeof JobStatus];
 
 /**
- * Job types supported by the system
+ * Outcome of a single job attempt - matches Prisma schema
+ * ABANDONED means the worker stopped heartbeating and the job was requeued
+ * TIMED_OUT means the attempt ran past the job's timeout and was aborted
  */
-export const JobType = {
-  EMAIL: "email",
-  WEBHOOK: "webhook",
-  SLEEP: "sleep",
-  DATA_PROCESSING: "data_processing",
+export const AttemptOutcome = {
+  SUCCEEDED: "SUCCEEDED",
+  FAILED: "FAILED",
+  CANCELLED: "CANCELLED",
+  ABANDONED: "ABANDONED",
+  TIMED_OUT: "TIMED_OUT",
+} as const;
+
+export type AttemptOutcome = (typeof AttemptOutcome)[keyof typeof AttemptOutcome];
+
+/**
+ * Level of a job log line - matches Prisma schema
+ */
+export const LogLevel = {
+  DEBUG: "DEBUG",
+  INFO: "INFO",
+  WARN: "WARN",
+  ERROR: "ERROR",
+} as const;
+
+export type LogLevel = (typeof LogLevel)[keyof typeof LogLevel];
+
+/**
+ * What happens to a waiting job when a job it depends on fails or is cancelled
+ * - matches Prisma schema
+ */
+export const ParentFailurePolicy = {
+  FAIL: "FAIL",
+  CANCEL: "CANCEL",
+} as const;
+
+export type ParentFailurePolicy = (typeof ParentFailurePolicy)[keyof typeof ParentFailurePolicy];
+
+/**
+ * Job priority - matches Prisma schema
+ * Higher priority jobs are always dequeued first
+ */
+export const JobPriority = {
+  HIGH: "HIGH",
+  NORMAL: "NORMAL",
+  LOW: "LOW",
+} as const;
+
+export type JobPriority = (typeof JobPriority)[keyof typeof JobPriority];
+
+/**
+ * Retry backoff strategies
+ */
+export const RetryStrategy = {
+  FIXED: "fixed",
+  LINEAR: "linear",
+  EXPONENTIAL: "exponential",
+} as const;
+
+export type RetryStrategy = (typeof RetryStrategy)[keyof typeof RetryStrategy];
+
+/**
+ * What an API key may do - admin implies the other scopes
+ */
+export const ApiKeyScope = {
+  JOBS_READ: "jobs:read",
+  JOBS_WRITE: "jobs:write",
+  ADMIN: "admin",
 } as const;
 
-export type JobType = (typeof JobType)[keyof typeof JobType];
+export type ApiKeyScope = (typeof ApiKeyScope)[keyof typeof ApiKeyScope];
 
 /**
  * WebSocket message types
@@ -33,8 +96,31 @@ export const WSMessageType = {
   SUBSCRIBE: "SUBSCRIBE",
   UNSUBSCRIBE: "UNSUBSCRIBE",
   JOB_UPDATE: "JOB_UPDATE",
+  SUBSCRIBE_LOGS: "SUBSCRIBE_LOGS",
+  UNSUBSCRIBE_LOGS: "UNSUBSCRIBE_LOGS",
+  JOB_PROGRESS: "JOB_PROGRESS",
+  JOB_LOG: "JOB_LOG",
   ERROR: "ERROR",
   CONNECTED: "CONNECTED",
+  AUTH: "AUTH",
+  AUTHENTICATED: "AUTHENTICATED",
+  SUBSCRIBED: "SUBSCRIBED",
+  RESYNC_REQUIRED: "RESYNC_REQUIRED",
 } as const;
 
 export type WSMessageType = (typeof WSMessageType)[keyof typeof WSMessageType];
+
+/**
+ * WebSocket error codes
+ */
+export const WSErrorCode = {
+  INVALID_MESSAGE: "INVALID_MESSAGE", // Not JSON, or not a known client message
+  UNAUTHENTICATED: "UNAUTHENTICATED", // No valid token yet (send AUTH first)
+  INVALID_TOKEN: "INVALID_TOKEN", // Unknown, revoked or expired token
+  FORBIDDEN: "FORBIDDEN", // The token's tenant or scopes don't allow it
+  NOT_FOUND: "NOT_FOUND", // The job doesn't exist (or belongs to another tenant)
+  LIMIT_EXCEEDED: "LIMIT_EXCEEDED", // Too many subscriptions on one connection
+  REPLAY_FAILED: "REPLAY_FAILED", // Missed updates couldn't be read; the subscription was dropped
+} as const;
+
+export type WSErrorCode = (typeof WSErrorCode)[keyof typeof WSErrorCode];
@@ -2,13 +2,25 @@
  * @repo/types - Shared types and validation schemas
  *
  * This package exports:
- * - Enums: JobStatus, JobType, WSMessageType
- * - Zod Schemas: For validation of API requests, responses, and WebSocket messages
+ * - Enums: JobStatus, JobPriority, RetryStrategy, ApiKeyScope, WSMessageType, WSErrorCode
+ * - Zod Schemas: For validation of API requests, responses, WebSocket messages and job events
  * - TypeScript Types: Inferred from Zod schemas
+ * - Cron and payload template helpers: For recurring job schedules
+ * - Workflow helpers: For dependency graphs (DAGs)
+ * - Validation helpers: Field-level error lists
  */
 
 // Export all enums
 export * from "./enums.ts";
 
 // Export all schemas and types
-export * from "./schemas.ts";
\ No newline at end of file
+export * from "./schemas.ts";
+
+// Export cron helpers
+export * from "./cron.ts";
+
+// Export workflow helpers
+export * from "./workflow.ts";
+
+// Export validation helpers
+export * from "./validation.ts";
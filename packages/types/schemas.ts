@@ -2,71 +2,251 @@
  * Zod validation schemas for the job queue system
  */
 import { z } from "zod/v4";
-import { JobStatus, JobType } from "./enums.ts";
+import {
+  ApiKeyScope,
+  AttemptOutcome,
+  JobPriority,
+  JobStatus,
+  LogLevel,
+  ParentFailurePolicy,
+  RetryStrategy,
+  WSErrorCode,
+} from "./enums.ts";
+import { isValidCronExpression, isValidTimezone } from "./cron.ts";
+import { topologicalOrder } from "./workflow.ts";
 
 // ================================
 // Job Schemas
 // ================================
 
 /**
- * Schema for job payload - varies by job type
+ * Job status schema
  */
-export const EmailPayloadSchema = z.object({
-  to: z.email(),
-  subject: z.string().min(1).max(200),
-  body: z.string().optional(),
-});
+export const JobStatusSchema = z.enum([
+  JobStatus.PENDING,
+  JobStatus.RUNNING,
+  JobStatus.COMPLETED,
+  JobStatus.FAILED,
+  JobStatus.SCHEDULED,
+  JobStatus.CANCELLED,
+  JobStatus.WAITING,
+]);
 
-export const WebhookPayloadSchema = z.object({
-  url: z.url(),
-  method: z.enum(["GET", "POST", "PUT", "DELETE"]).default("POST"),
-  headers: z.record(z.string(), z.string()).optional(),
-  body: z.unknown().optional(),
-});
+/**
+ * Attempt outcome schema
+ */
+export const AttemptOutcomeSchema = z.enum([
+  AttemptOutcome.SUCCEEDED,
+  AttemptOutcome.FAILED,
+  AttemptOutcome.CANCELLED,
+  AttemptOutcome.ABANDONED,
+  AttemptOutcome.TIMED_OUT,
+]);
 
-export const SleepPayloadSchema = z.object({
-  delayMs: z.number().int().min(0).max(60000),
-});
+/**
+ * Job log level schema
+ */
+export const LogLevelSchema = z.enum([
+  LogLevel.DEBUG,
+  LogLevel.INFO,
+  LogLevel.WARN,
+  LogLevel.ERROR,
+]);
+
+/**
+ * Parent failure policy schema
+ */
+export const ParentFailurePolicySchema = z.enum([
+  ParentFailurePolicy.FAIL,
+  ParentFailurePolicy.CANCEL,
+]);
+
+/**
+ * Job priority schema
+ */
+export const JobPrioritySchema = z.enum([JobPriority.HIGH, JobPriority.NORMAL, JobPriority.LOW]);
 
-export const DataProcessingPayloadSchema = z.object({
-  dataId: z.string().uuid(),
-  operation: z.string().min(1),
+/**
+ * Job type name - each type is defined (payload schema, handler) in @repo/processors
+ */
+export const JobTypeSchema = z
+  .string()
+  .regex(/^[a-z][a-z0-9_]{0,49}$/, "Job types are lowercase letters, digits and underscores");
+
+/**
+ * Job payload - any JSON object here; the API checks it against the schema its job type
+ * registered in @repo/processors
+ */
+export const JobPayloadSchema = z.record(z.string(), z.unknown());
+
+/**
+ * Retry policy - how long to wait between attempts of a failed job
+ * - fixed: always `delayMs`
+ * - linear: `delayMs * attempt`
+ * - exponential: `delayMs * 2^(attempt - 1)`
+ * The delay is capped at `maxDelayMs`, then up to `jitter` (0-1) of it is randomly shaved off.
+ */
+export const RetryPolicySchema = z.object({
+  strategy: z.enum([RetryStrategy.FIXED, RetryStrategy.LINEAR, RetryStrategy.EXPONENTIAL]),
+  maxAttempts: z.number().int().min(1).max(25).default(3),
+  delayMs: z.number().int().min(0).max(3_600_000).default(1000),
+  maxDelayMs: z.number().int().min(0).max(86_400_000).optional(),
+  jitter: z.number().min(0).max(1).default(0),
 });
 
 /**
- * Union of all payload schemas
+ * Execution timeout - how long one attempt may run (ms) before the worker aborts it
  */
-export const JobPayloadSchema = z.union([
-  EmailPayloadSchema,
-  WebhookPayloadSchema,
-  SleepPayloadSchema,
-  DataProcessingPayloadSchema,
-  z.record(z.string(), z.unknown()), // Allow arbitrary JSON for flexibility
-]);
+export const JobTimeoutSchema = z.number().int().min(1000).max(86_400_000);
 
 // ================================
 // API Request Schemas
 // ================================
 
 /**
- * Create job request schema
+ * Create job request fields, before the cross-field rules below
+ * `type` and `payload` are loose here; @repo/processors narrows them per registered job type.
  */
-export const CreateJobSchema = z.object({
+export const CreateJobFieldsSchema = z.object({
   tenantId: z.string().min(1).max(100),
-  type: z.enum([JobType.EMAIL, JobType.WEBHOOK, JobType.SLEEP, JobType.DATA_PROCESSING]),
+  type: JobTypeSchema,
   payload: JobPayloadSchema,
+  priority: JobPrioritySchema.default(JobPriority.NORMAL),
+  retryPolicy: RetryPolicySchema.optional(),
+  timeoutMs: JobTimeoutSchema.optional(), // Defaults to the job type's timeout
+  runAt: z.string().datetime({ offset: true }).optional(),
+  delayMs: z.number().int().min(0).max(365 * 24 * 60 * 60 * 1000).optional(),
+  dependsOn: z.array(z.string().uuid()).min(1).max(100).optional(),
+  onParentFailure: ParentFailurePolicySchema.default(ParentFailurePolicy.FAIL),
 });
 
+/**
+ * Add the create job cross-field rules (scheduling vs. dependencies) to a schema
+ */
+export function withCreateJobRules<
+  T extends z.ZodType<{ runAt?: string; delayMs?: number; dependsOn?: string[] }>,
+>(schema: T): T {
+  return schema
+    .refine((job) => job.runAt === undefined || job.delayMs === undefined, {
+      message: "Specify either runAt or delayMs, not both",
+      path: ["runAt"],
+    })
+    .refine((job) => !job.dependsOn || (job.runAt === undefined && job.delayMs === undefined), {
+      message: "Jobs with dependsOn run when their parents complete; runAt and delayMs are not allowed",
+      path: ["dependsOn"],
+    });
+}
+
+/**
+ * Create job request schema
+ * Jobs run immediately unless `runAt` (ISO timestamp) or `delayMs` is given.
+ * Jobs with `dependsOn` wait (WAITING) until every listed job has completed.
+ * The API validates with getCreateJobSchema() from @repo/processors, which also checks
+ * each payload against its job type's schema.
+ */
+export const CreateJobSchema = withCreateJobRules(CreateJobFieldsSchema);
+
+/**
+ * Most jobs accepted by one POST /jobs/batch request
+ */
+export const MAX_JOB_BATCH_SIZE = 1000;
+
+/**
+ * Bulk create request schema
+ * Items are validated one by one against CreateJobSchema so each gets its own result
+ */
+export const CreateJobBatchSchema = z.object({
+  jobs: z.array(z.unknown()).min(1).max(MAX_JOB_BATCH_SIZE),
+});
+
+/**
+ * Idempotency-Key header schema (optional on POST /jobs)
+ */
+export const IdempotencyKeySchema = z.string().min(1).max(255);
+
 /**
  * List jobs query schema
  */
 export const ListJobsQuerySchema = z.object({
   tenantId: z.string().min(1).max(100),
-  status: z.enum([JobStatus.PENDING, JobStatus.RUNNING, JobStatus.COMPLETED, JobStatus.FAILED]).optional(),
+  status: JobStatusSchema.optional(),
   limit: z.coerce.number().int().min(1).max(100).default(20),
   offset: z.coerce.number().int().min(0).default(0),
 });
 
+/**
+ * List job logs query schema
+ * Without `replay` / `attempt`, logs of every attempt are returned (oldest first)
+ */
+export const ListJobLogsQuerySchema = z.object({
+  replay: z.coerce.number().int().min(0).optional(),
+  attempt: z.coerce.number().int().min(1).optional(),
+  level: LogLevelSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(500),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+/**
+ * One job of a workflow; `dependsOn` lists the keys of other jobs in the same workflow
+ */
+export const WorkflowJobSchema = z.object({
+  key: z.string().min(1).max(100),
+  type: JobTypeSchema,
+  payload: JobPayloadSchema,
+  priority: JobPrioritySchema.default(JobPriority.NORMAL),
+  retryPolicy: RetryPolicySchema.optional(),
+  timeoutMs: JobTimeoutSchema.optional(),
+  dependsOn: z.array(z.string().min(1)).max(100).default([]),
+  onParentFailure: ParentFailurePolicySchema.default(ParentFailurePolicy.FAIL),
+});
+
+/**
+ * Create workflow request schema - a DAG of jobs submitted at once
+ * Keys must be unique, dependencies must name jobs in the workflow, and there can be no cycles
+ */
+export const CreateWorkflowSchema = z
+  .object({
+    tenantId: z.string().min(1).max(100),
+    jobs: z.array(WorkflowJobSchema).min(1).max(500),
+  })
+  .superRefine(({ jobs }, ctx) => {
+    const keys = new Set<string>();
+
+    jobs.forEach((job, index) => {
+      if (keys.has(job.key)) {
+        ctx.addIssue({
+          code: "custom",
+          message: `Duplicate key "${job.key}"`,
+          path: ["jobs", index, "key"],
+        });
+      }
+      keys.add(job.key);
+    });
+
+    jobs.forEach((job, index) => {
+      for (const parent of job.dependsOn) {
+        if (!keys.has(parent)) {
+          ctx.addIssue({
+            code: "custom",
+            message: `Unknown dependency "${parent}"`,
+            path: ["jobs", index, "dependsOn"],
+          });
+        }
+      }
+    });
+
+    if (!topologicalOrder(jobs)) {
+      ctx.addIssue({ code: "custom", message: "Dependencies contain a cycle", path: ["jobs"] });
+    }
+  });
+
+/**
+ * Workflow ID param schema
+ */
+export const WorkflowIdParamSchema = z.object({
+  id: z.string().uuid(),
+});
+
 /**
  * Job ID param schema
  */
@@ -74,10 +254,174 @@ export const JobIdParamSchema = z.object({
   id: z.string().uuid(),
 });
 
+// ================================
+// Recurring Job (Schedule) Schemas
+// ================================
+
+/**
+ * Create schedule request schema
+ * `payload` is a template: "{{scheduledAt}}" and "{{scheduleId}}" in string values
+ * are replaced for every job the schedule creates
+ */
+export const CreateScheduleSchema = z.object({
+  tenantId: z.string().min(1).max(100),
+  type: JobTypeSchema,
+  payload: JobPayloadSchema,
+  cronExpression: z.string().min(1).max(100).refine(isValidCronExpression, {
+    message: "Invalid cron expression",
+  }),
+  timezone: z.string().refine(isValidTimezone, { message: "Invalid timezone" }).default("UTC"),
+  enabled: z.boolean().default(true),
+  priority: JobPrioritySchema.default(JobPriority.NORMAL),
+  retryPolicy: RetryPolicySchema.optional(),
+});
+
+/**
+ * Update schedule request schema (tenant and type are fixed)
+ */
+export const UpdateScheduleSchema = CreateScheduleSchema.omit({ tenantId: true, type: true })
+  .partial()
+  .extend({
+    // Re-declared without defaults so omitted fields stay unchanged
+    timezone: z.string().refine(isValidTimezone, { message: "Invalid timezone" }).optional(),
+    enabled: z.boolean().optional(),
+    priority: JobPrioritySchema.optional(),
+  });
+
+/**
+ * List schedules query schema
+ */
+export const ListSchedulesQuerySchema = z.object({
+  tenantId: z.string().min(1).max(100),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+/**
+ * Schedule ID param schema
+ */
+export const ScheduleIdParamSchema = z.object({
+  id: z.string().uuid(),
+});
+
+// ================================
+// Tenant Settings Schemas
+// ================================
+
+/**
+ * Tenant ID param schema
+ */
+export const TenantIdParamSchema = z.object({
+  tenantId: z.string().min(1).max(100),
+});
+
+/**
+ * Tenant scheduling weight - jobs served in a row before the next tenant's turn
+ */
+export const TenantWeightSchema = z.object({
+  weight: z.number().int().min(1).max(100),
+});
+
+/**
+ * Token bucket for one job type: `perSecond` jobs per second, bursts of up to `burst`
+ */
+export const RateLimitSchema = z.object({
+  perSecond: z.number().positive().max(10_000),
+  burst: z.number().int().min(1).max(10_000).optional(),
+});
+
+/**
+ * Tenant limits - enforced by the worker before a job runs
+ * Over-limit jobs are deferred without using up an attempt
+ */
+export const TenantLimitsSchema = z.object({
+  maxConcurrency: z.number().int().min(1).max(1000).optional(),
+  rateLimits: z.record(z.string().min(1), RateLimitSchema).optional(),
+});
+
+// ================================
+// API Key Schemas
+// ================================
+
+/**
+ * API key scope schema
+ */
+export const ApiKeyScopeSchema = z.enum([
+  ApiKeyScope.JOBS_READ,
+  ApiKeyScope.JOBS_WRITE,
+  ApiKeyScope.ADMIN,
+]);
+
+/**
+ * Create API key request schema (the key belongs to the caller's tenant)
+ */
+export const CreateApiKeySchema = z.object({
+  name: z.string().min(1).max(100),
+  scopes: z
+    .array(ApiKeyScopeSchema)
+    .min(1)
+    .default([ApiKeyScope.JOBS_READ, ApiKeyScope.JOBS_WRITE]),
+});
+
+/**
+ * API key ID param schema
+ */
+export const ApiKeyIdParamSchema = z.object({
+  id: z.string().uuid(),
+});
+
+// ================================
+// Dead-Letter Queue Schemas
+// ================================
+
+/**
+ * List dead letters query schema
+ */
+export const ListDeadLettersQuerySchema = z.object({
+  tenantId: z.string().min(1).max(100),
+  type: z.string().min(1).optional(),
+  errorSignature: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+/**
+ * Dead-letter groups query schema
+ */
+export const DeadLetterGroupsQuerySchema = z.object({
+  tenantId: z.string().min(1).max(100),
+  type: z.string().min(1).optional(),
+});
+
+/**
+ * Bulk replay request schema
+ * Replays a tenant's dead letters matching `type` / `errorSignature`;
+ * replaying everything requires `all: true`
+ */
+export const ReplayDeadLettersSchema = z
+  .object({
+    tenantId: z.string().min(1).max(100),
+    type: z.string().min(1).optional(),
+    errorSignature: z.string().min(1).optional(),
+    all: z.boolean().optional(),
+  })
+  .refine((body) => body.type || body.errorSignature || body.all, {
+    message: "Specify type or errorSignature, or set all to true",
+    path: ["all"],
+  });
+
 // ================================
 // API Response Schemas
 // ================================
 
+/**
+ * One invalid field of a request, e.g. { field: "payload.to", message: "Invalid email address" }
+ */
+export const FieldErrorSchema = z.object({
+  field: z.string(), // Dotted path, e.g. "payload.to"
+  message: z.string(),
+});
+
 /**
  * Job response schema (what clients receive)
  */
@@ -86,13 +430,139 @@ export const JobResponseSchema = z.object({
   tenantId: z.string(),
   type: z.string(),
   payload: z.unknown(),
-  status: z.enum([JobStatus.PENDING, JobStatus.RUNNING, JobStatus.COMPLETED, JobStatus.FAILED]),
+  status: JobStatusSchema,
+  priority: JobPrioritySchema,
   attempts: z.number().int(),
   error: z.string().nullable(),
+  timeoutMs: z.number().int().nullable(),
+  nextRunAt: z.string().datetime().nullable(),
+  output: z.unknown().nullable(),
+  outputTruncated: z.boolean(),
+  progress: z.number().int().min(0).max(100).nullable(),
+  progressMessage: z.string().nullable(),
+  replayCount: z.number().int(),
+  lastReplayedAt: z.string().datetime().nullable(),
+  workflowId: z.string().uuid().nullable(),
+  workflowKey: z.string().nullable(),
+  onParentFailure: ParentFailurePolicySchema,
   createdAt: z.string().datetime(),
   updatedAt: z.string().datetime(),
 });
 
+/**
+ * Job attempt response schema
+ */
+export const JobAttemptResponseSchema = z.object({
+  attempt: z.number().int(),
+  replay: z.number().int(),
+  workerId: z.string(),
+  startedAt: z.string().datetime(),
+  finishedAt: z.string().datetime().nullable(),
+  durationMs: z.number().int().nullable(),
+  outcome: AttemptOutcomeSchema.nullable(),
+  error: z.string().nullable(),
+  stack: z.string().nullable(),
+});
+
+/**
+ * Job log line response
+ */
+export const JobLogResponseSchema = z.object({
+  replay: z.number().int(),
+  attempt: z.number().int(),
+  line: z.number().int(),
+  level: LogLevelSchema,
+  message: z.string(),
+  timestamp: z.string().datetime(),
+});
+
+/**
+ * List job logs response
+ */
+export const ListJobLogsResponseSchema = z.object({
+  jobId: z.string().uuid(),
+  logs: z.array(JobLogResponseSchema),
+  total: z.number().int(),
+});
+
+/**
+ * Job detail response: the job plus every attempt, oldest first (across replays)
+ */
+export const JobDetailResponseSchema = JobResponseSchema.extend({
+  jobAttempts: z.array(JobAttemptResponseSchema),
+});
+
+/**
+ * Schedule response schema
+ */
+export const ScheduleResponseSchema = z.object({
+  id: z.string().uuid(),
+  tenantId: z.string(),
+  type: z.string(),
+  payload: z.unknown(),
+  cronExpression: z.string(),
+  timezone: z.string(),
+  enabled: z.boolean(),
+  priority: JobPrioritySchema,
+  lastRunAt: z.string().datetime().nullable(),
+  nextRunAt: z.string().datetime().nullable(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+
+/**
+ * List schedules response
+ */
+export const ListSchedulesResponseSchema = z.object({
+  schedules: z.array(ScheduleResponseSchema),
+  total: z.number().int(),
+});
+
+/**
+ * Dead letter response schema
+ */
+export const DeadLetterResponseSchema = z.object({
+  jobId: z.string().uuid(),
+  tenantId: z.string(),
+  type: z.string(),
+  error: z.string(),
+  errorSignature: z.string(),
+  attempts: z.number().int(),
+  failedAt: z.string().datetime(),
+});
+
+/**
+ * List dead letters response
+ */
+export const ListDeadLettersResponseSchema = z.object({
+  deadLetters: z.array(DeadLetterResponseSchema),
+  total: z.number().int(),
+});
+
+/**
+ * Dead letters sharing a type and error signature
+ */
+export const DeadLetterGroupResponseSchema = z.object({
+  type: z.string(),
+  errorSignature: z.string(),
+  count: z.number().int(),
+  lastFailedAt: z.string().datetime().nullable(),
+});
+
+/**
+ * Dead-letter groups response (largest first)
+ */
+export const ListDeadLetterGroupsResponseSchema = z.object({
+  groups: z.array(DeadLetterGroupResponseSchema),
+});
+
+/**
+ * Replay response
+ */
+export const ReplayDeadLettersResponseSchema = z.object({
+  replayed: z.number().int(),
+});
+
 /**
  * Create job response
  */
@@ -100,6 +570,92 @@ export const CreateJobResponseSchema = z.object({
   jobId: z.string().uuid(),
 });
 
+/**
+ * Result for one item of a bulk create, in request order
+ */
+export const CreateJobBatchItemResultSchema = z.discriminatedUnion("success", [
+  z.object({ index: z.number().int(), success: z.literal(true), jobId: z.string().uuid() }),
+  z.object({
+    index: z.number().int(),
+    success: z.literal(false),
+    error: z.string(),
+    details: z.unknown().optional(),
+    fields: z.array(FieldErrorSchema).optional(),
+  }),
+]);
+
+/**
+ * Bulk create response
+ */
+export const CreateJobBatchResponseSchema = z.object({
+  results: z.array(CreateJobBatchItemResultSchema),
+  created: z.number().int(),
+  failed: z.number().int(),
+});
+
+/**
+ * A job of a workflow with its dependencies (as keys)
+ */
+export const WorkflowJobResponseSchema = z.object({
+  key: z.string(),
+  jobId: z.string().uuid(),
+  type: z.string(),
+  status: JobStatusSchema,
+  dependsOn: z.array(z.string()),
+  error: z.string().nullable(),
+});
+
+/**
+ * Workflow response
+ */
+export const WorkflowResponseSchema = z.object({
+  workflowId: z.string().uuid(),
+  tenantId: z.string(),
+  jobs: z.array(WorkflowJobResponseSchema),
+});
+
+/**
+ * Registered job type (GET /job-types)
+ * `payloadSchema` is the type's payload schema as JSON Schema
+ */
+export const JobTypeResponseSchema = z.object({
+  type: z.string(),
+  label: z.string(),
+  description: z.string().nullable(),
+  payloadSchema: z.unknown(),
+  examplePayload: z.unknown().nullable(),
+  retryPolicy: RetryPolicySchema.nullable(),
+  timeoutMs: z.number().int().nullable(), // null: the worker's default timeout
+  maxBatchSize: z.number().int().nullable(), // Set when the type has a batch handler
+});
+
+/**
+ * List job types response
+ */
+export const ListJobTypesResponseSchema = z.object({
+  jobTypes: z.array(JobTypeResponseSchema),
+});
+
+/**
+ * Job result response
+ * `output` is what the processor returned; when it exceeded the size cap it is a
+ * string preview of the JSON and `outputTruncated` is true
+ */
+export const JobResultResponseSchema = z.object({
+  jobId: z.string().uuid(),
+  status: JobStatusSchema,
+  output: z.unknown().nullable(),
+  outputTruncated: z.boolean(),
+});
+
+/**
+ * Cancel job response
+ */
+export const CancelJobResponseSchema = z.object({
+  jobId: z.string().uuid(),
+  status: z.literal(JobStatus.CANCELLED),
+});
+
 /**
  * List jobs response
  */
@@ -108,6 +664,42 @@ export const ListJobsResponseSchema = z.object({
   total: z.number().int(),
 });
 
+/**
+ * API key response schema - the key itself is only returned when it is created
+ */
+export const ApiKeyResponseSchema = z.object({
+  id: z.string().uuid(),
+  tenantId: z.string(),
+  name: z.string(),
+  prefix: z.string(),
+  scopes: z.array(ApiKeyScopeSchema),
+  createdAt: z.string().datetime(),
+  lastUsedAt: z.string().datetime().nullable(),
+  revokedAt: z.string().datetime().nullable(),
+});
+
+/**
+ * Create API key response - includes the key, which can't be retrieved again
+ */
+export const CreateApiKeyResponseSchema = ApiKeyResponseSchema.extend({
+  key: z.string(),
+});
+
+/**
+ * WebSocket token response - a short-lived token for the /ws handshake
+ */
+export const WSTokenResponseSchema = z.object({
+  token: z.string(),
+  expiresAt: z.string().datetime(),
+});
+
+/**
+ * List API keys response
+ */
+export const ListApiKeysResponseSchema = z.object({
+  apiKeys: z.array(ApiKeyResponseSchema),
+});
+
 /**
  * Error response schema
  */
@@ -115,6 +707,7 @@ export const ErrorResponseSchema = z.object({
   error: z.string(),
   message: z.string(),
   details: z.unknown().optional(),
+  fields: z.array(FieldErrorSchema).optional(),
 });
 
 // ================================
@@ -122,19 +715,64 @@ export const ErrorResponseSchema = z.object({
 // ================================
 
 /**
- * Client → Server: Subscribe to tenant updates
+ * Client → Server: Authenticate the connection (unless a token was given in the URL)
+ * `token` is an API key with jobs:read, or a WebSocket token from POST /ws-tokens
+ */
+export const WSAuthSchema = z.object({
+  type: z.literal("AUTH"),
+  token: z.string().min(1),
+});
+
+/**
+ * WebSocket subscription id - chosen by the client, unique per connection
+ */
+export const WSSubscriptionIdSchema = z.string().min(1).max(100);
+
+/**
+ * Job event id - increases monotonically within a tenant ("<ms>-<seq>")
+ */
+export const JobEventIdSchema = z.string().regex(/^\d+-\d+$/, "Invalid event id");
+
+/**
+ * Client → Server: Subscribe to tenant updates (the connection's own tenant only)
+ * Filters narrow the updates and combine with AND; without any, every update of the tenant
+ * matches. A connection can hold several subscriptions; subscribing again with the same
+ * `subscriptionId` replaces that subscription.
  */
 export const WSSubscribeSchema = z.object({
   type: z.literal("SUBSCRIBE"),
   tenantId: z.string().min(1),
+  subscriptionId: WSSubscriptionIdSchema.default("default"),
+  jobId: z.string().uuid().optional(), // Only this job
+  jobTypes: z.array(JobTypeSchema).min(1).max(50).optional(), // Only jobs of these types
+  statuses: z.array(JobStatusSchema).min(1).optional(), // Only updates to these statuses
+  lastEventId: JobEventIdSchema.optional(), // Replay the matching updates missed since then
 });
 
 /**
  * Client → Server: Unsubscribe from tenant updates
+ * Removes one subscription, or without `subscriptionId` all of the tenant's on this connection.
  */
 export const WSUnsubscribeSchema = z.object({
   type: z.literal("UNSUBSCRIBE"),
   tenantId: z.string().min(1),
+  subscriptionId: WSSubscriptionIdSchema.optional(),
+});
+
+/**
+ * Client → Server: Tail a job's log lines as they are written
+ */
+export const WSSubscribeLogsSchema = z.object({
+  type: z.literal("SUBSCRIBE_LOGS"),
+  jobId: z.string().uuid(),
+});
+
+/**
+ * Client → Server: Stop tailing a job's logs
+ */
+export const WSUnsubscribeLogsSchema = z.object({
+  type: z.literal("UNSUBSCRIBE_LOGS"),
+  jobId: z.string().uuid(),
 });
 
 /**
@@ -143,15 +781,55 @@ export const WSUnsubscribeSchema = z.object({
 export const WSJobUpdateSchema = z.object({
   type: z.literal("JOB_UPDATE"),
   jobId: z.string().uuid(),
-  status: z.enum([JobStatus.PENDING, JobStatus.RUNNING, JobStatus.COMPLETED, JobStatus.FAILED]),
+  jobType: z.string(),
+  eventId: JobEventIdSchema,
+  subscriptionIds: z.array(WSSubscriptionIdSchema), // The connection's subscriptions it matched
+  status: JobStatusSchema,
   error: z.string().nullable().optional(),
+  output: z.unknown().optional(), // Sent on COMPLETED
 });
 
+/**
+ * Server → Client: Progress reported by a running job (throttled by the worker)
+ * Matches status filters like a RUNNING update.
+ */
+export const WSJobProgressSchema = z.object({
+  type: z.literal("JOB_PROGRESS"),
+  jobId: z.string().uuid(),
+  jobType: z.string(),
+  subscriptionIds: z.array(WSSubscriptionIdSchema),
+  percent: z.number().int().min(0).max(100),
+  message: z.string().nullable().optional(),
+});
+
+/**
+ * Server → Client: New log lines of a tailed job
+ */
+export const WSJobLogSchema = z.object({
+  type: z.literal("JOB_LOG"),
+  jobId: z.string().uuid(),
+  lines: z.array(JobLogResponseSchema),
+});
+
+/**
+ * WebSocket error code schema
+ */
+export const WSErrorCodeSchema = z.enum([
+  WSErrorCode.INVALID_MESSAGE,
+  WSErrorCode.UNAUTHENTICATED,
+  WSErrorCode.INVALID_TOKEN,
+  WSErrorCode.FORBIDDEN,
+  WSErrorCode.NOT_FOUND,
+  WSErrorCode.LIMIT_EXCEEDED,
+  WSErrorCode.REPLAY_FAILED,
+]);
+
 /**
  * Server → Client: Error message
  */
 export const WSErrorSchema = z.object({
   type: z.literal("ERROR"),
+  code: WSErrorCodeSchema,
   message: z.string(),
 });
 
@@ -163,12 +841,43 @@ export const WSConnectedSchema = z.object({
   message: z.string().optional(),
 });
 
+/**
+ * Server → Client: A subscription is active (after any replayed updates)
+ * `lastEventId` is the tenant's latest event id, to resume from if no update follows.
+ */
+export const WSSubscribedSchema = z.object({
+  type: z.literal("SUBSCRIBED"),
+  subscriptionId: WSSubscriptionIdSchema,
+  lastEventId: JobEventIdSchema.nullable(),
+});
+
+/**
+ * Server → Client: Updates since `lastEventId` can't be replayed (too old); reload the
+ * jobs over the REST API. The subscription is live from here on.
+ */
+export const WSResyncRequiredSchema = z.object({
+  type: z.literal("RESYNC_REQUIRED"),
+  subscriptionId: WSSubscriptionIdSchema,
+  message: z.string(),
+});
+
+/**
+ * Server → Client: The connection is authenticated for a tenant
+ */
+export const WSAuthenticatedSchema = z.object({
+  type: z.literal("AUTHENTICATED"),
+  tenantId: z.string(),
+});
+
 /**
  * All client messages
  */
 export const WSClientMessageSchema = z.discriminatedUnion("type", [
+  WSAuthSchema,
   WSSubscribeSchema,
   WSUnsubscribeSchema,
+  WSSubscribeLogsSchema,
+  WSUnsubscribeLogsSchema,
 ]);
 
 /**
@@ -176,33 +885,143 @@ export const WSClientMessageSchema = z.discriminatedUnion("type", [
  */
 export const WSServerMessageSchema = z.discriminatedUnion("type", [
   WSJobUpdateSchema,
+  WSJobProgressSchema,
+  WSJobLogSchema,
   WSErrorSchema,
   WSConnectedSchema,
+  WSAuthenticatedSchema,
+  WSSubscribedSchema,
+  WSResyncRequiredSchema,
+]);
+
+// ================================
+// Job Event Envelope Schemas
+// ================================
+
+/**
+ * Current job event envelope version
+ * Bump it (and add a variant) for changes that would break existing stream consumers.
+ */
+export const JOB_EVENT_VERSION = 1;
+
+/**
+ * Job status change (event data)
+ */
+export const JobStatusEventDataSchema = z.object({
+  tenantId: z.string(),
+  jobId: z.string().uuid(),
+  jobType: z.string(),
+  status: JobStatusSchema,
+  error: z.string().nullable().optional(),
+  output: z.unknown().optional(), // Sent on COMPLETED
+});
+
+/**
+ * Progress of a running job (event data)
+ */
+export const JobProgressEventDataSchema = z.object({
+  tenantId: z.string(),
+  jobId: z.string().uuid(),
+  jobType: z.string(),
+  percent: z.number().int().min(0).max(100),
+  message: z.string().nullable().optional(),
+});
+
+const JobEventEnvelopeFields = {
+  version: z.literal(JOB_EVENT_VERSION),
+  id: z.string().uuid(), // Unique per event, for consumers to deduplicate
+  occurredAt: z.string().datetime(),
+};
+
+/**
+ * Job event as written to the job event stream (Redis Streams transport)
+ */
+export const JobEventEnvelopeSchema = z.discriminatedUnion("type", [
+  z.object({
+    ...JobEventEnvelopeFields,
+    type: z.literal("JOB_UPDATE"),
+    data: JobStatusEventDataSchema,
+  }),
+  z.object({
+    ...JobEventEnvelopeFields,
+    type: z.literal("JOB_PROGRESS"),
+    data: JobProgressEventDataSchema,
+  }),
 ]);
 
 // ================================
 // Type Exports (inferred from schemas)
 // ================================
 
-export type EmailPayload = z.infer<typeof EmailPayloadSchema>;
-export type WebhookPayload = z.infer<typeof WebhookPayloadSchema>;
-export type SleepPayload = z.infer<typeof SleepPayloadSchema>;
-export type DataProcessingPayload = z.infer<typeof DataProcessingPayloadSchema>;
 export type JobPayload = z.infer<typeof JobPayloadSchema>;
+export type RetryPolicy = z.infer<typeof RetryPolicySchema>;
 
 export type CreateJobInput = z.infer<typeof CreateJobSchema>;
+export type CreateJobBatchInput = z.infer<typeof CreateJobBatchSchema>;
 export type ListJobsQuery = z.infer<typeof ListJobsQuerySchema>;
 export type JobIdParam = z.infer<typeof JobIdParamSchema>;
+export type ListJobLogsQuery = z.infer<typeof ListJobLogsQuerySchema>;
+export type WorkflowJobInput = z.infer<typeof WorkflowJobSchema>;
+export type CreateWorkflowInput = z.infer<typeof CreateWorkflowSchema>;
+export type WorkflowIdParam = z.infer<typeof WorkflowIdParamSchema>;
+export type CreateScheduleInput = z.infer<typeof CreateScheduleSchema>;
+export type UpdateScheduleInput = z.infer<typeof UpdateScheduleSchema>;
+export type ListSchedulesQuery = z.infer<typeof ListSchedulesQuerySchema>;
+export type ScheduleIdParam = z.infer<typeof ScheduleIdParamSchema>;
+export type TenantIdParam = z.infer<typeof TenantIdParamSchema>;
+export type TenantWeight = z.infer<typeof TenantWeightSchema>;
+export type RateLimit = z.infer<typeof RateLimitSchema>;
+export type TenantLimits = z.infer<typeof TenantLimitsSchema>;
+export type ListDeadLettersQuery = z.infer<typeof ListDeadLettersQuerySchema>;
+export type DeadLetterGroupsQuery = z.infer<typeof DeadLetterGroupsQuerySchema>;
+export type ReplayDeadLettersInput = z.infer<typeof ReplayDeadLettersSchema>;
+export type CreateApiKeyInput = z.infer<typeof CreateApiKeySchema>;
 
 export type JobResponse = z.infer<typeof JobResponseSchema>;
+export type JobAttemptResponse = z.infer<typeof JobAttemptResponseSchema>;
+export type JobLogResponse = z.infer<typeof JobLogResponseSchema>;
+export type ListJobLogsResponse = z.infer<typeof ListJobLogsResponseSchema>;
+export type JobDetailResponse = z.infer<typeof JobDetailResponseSchema>;
 export type CreateJobResponse = z.infer<typeof CreateJobResponseSchema>;
+export type CreateJobBatchItemResult = z.infer<typeof CreateJobBatchItemResultSchema>;
+export type CreateJobBatchResponse = z.infer<typeof CreateJobBatchResponseSchema>;
+export type WorkflowJobResponse = z.infer<typeof WorkflowJobResponseSchema>;
+export type WorkflowResponse = z.infer<typeof WorkflowResponseSchema>;
+export type JobTypeResponse = z.infer<typeof JobTypeResponseSchema>;
+export type ListJobTypesResponse = z.infer<typeof ListJobTypesResponseSchema>;
+export type JobResultResponse = z.infer<typeof JobResultResponseSchema>;
+export type CancelJobResponse = z.infer<typeof CancelJobResponseSchema>;
 export type ListJobsResponse = z.infer<typeof ListJobsResponseSchema>;
+export type ScheduleResponse = z.infer<typeof ScheduleResponseSchema>;
+export type ListSchedulesResponse = z.infer<typeof ListSchedulesResponseSchema>;
+export type DeadLetterResponse = z.infer<typeof DeadLetterResponseSchema>;
+export type ListDeadLettersResponse = z.infer<typeof ListDeadLettersResponseSchema>;
+export type DeadLetterGroupResponse = z.infer<typeof DeadLetterGroupResponseSchema>;
+export type ListDeadLetterGroupsResponse = z.infer<typeof ListDeadLetterGroupsResponseSchema>;
+export type ReplayDeadLettersResponse = z.infer<typeof ReplayDeadLettersResponseSchema>;
+export type ApiKeyResponse = z.infer<typeof ApiKeyResponseSchema>;
+export type CreateApiKeyResponse = z.infer<typeof CreateApiKeyResponseSchema>;
+export type ListApiKeysResponse = z.infer<typeof ListApiKeysResponseSchema>;
+export type WSTokenResponse = z.infer<typeof WSTokenResponseSchema>;
+export type FieldError = z.infer<typeof FieldErrorSchema>;
 export type ErrorResponse = z.infer<typeof ErrorResponseSchema>;
 
+export type WSAuth = z.infer<typeof WSAuthSchema>;
 export type WSSubscribe = z.infer<typeof WSSubscribeSchema>;
 export type WSUnsubscribe = z.infer<typeof WSUnsubscribeSchema>;
 export type WSJobUpdate = z.infer<typeof WSJobUpdateSchema>;
+export type WSJobProgress = z.infer<typeof WSJobProgressSchema>;
+export type WSJobLog = z.infer<typeof WSJobLogSchema>;
+export type WSSubscribeLogs = z.infer<typeof WSSubscribeLogsSchema>;
+export type WSUnsubscribeLogs = z.infer<typeof WSUnsubscribeLogsSchema>;
 export type WSError = z.infer<typeof WSErrorSchema>;
 export type WSConnected = z.infer<typeof WSConnectedSchema>;
+export type WSAuthenticated = z.infer<typeof WSAuthenticatedSchema>;
+export type WSSubscribed = z.infer<typeof WSSubscribedSchema>;
+export type WSResyncRequired = z.infer<typeof WSResyncRequiredSchema>;
 export type WSClientMessage = z.infer<typeof WSClientMessageSchema>;
 export type WSServerMessage = z.infer<typeof WSServerMessageSchema>;
+
+export type JobStatusEventData = z.infer<typeof JobStatusEventDataSchema>;
+export type JobProgressEventData = z.infer<typeof JobProgressEventDataSchema>;
+export type JobEventEnvelope = z.infer<typeof JobEventEnvelopeSchema>;
@@ -0,0 +1,16 @@
+/**
+ * Validation error helpers
+ */
+import type { z } from "zod/v4";
+import type { FieldError } from "./schemas.ts";
+
+/**
+ * Flatten a Zod error into one entry per invalid field
+ * Paths are dotted ("payload.to", "jobs.2.type"); errors about the whole value use "(root)".
+ */
+export function toFieldErrors(error: z.ZodError, prefix?: string): FieldError[] {
+  return error.issues.map((issue) => {
+    const path = [...(prefix ? [prefix] : []), ...issue.path.map(String)];
+    return { field: path.join(".") || "(root)", message: issue.message };
+  });
+}
@@ -0,0 +1,61 @@
+/**
+ * Workflow (DAG) helpers
+ */
+
+/**
+ * A node of a workflow: its key and the keys it depends on
+ */
+export interface WorkflowNode {
+  key: string;
+  dependsOn?: string[];
+}
+
+/**
+ * Order workflow nodes so every node comes after the nodes it depends on
+ * Returns null if the dependencies contain a cycle. Unknown keys are ignored.
+ */
+export function topologicalOrder<T extends WorkflowNode>(nodes: T[]): T[] | null {
+  const byKey = new Map(nodes.map((node) => [node.key, node]));
+  const remaining = new Map(
+    nodes.map((node) => [node.key, (node.dependsOn ?? []).filter((key) => byKey.has(key)).length])
+  );
+  const children = new Map<string, string[]>();
+
+  for (const node of nodes) {
+    for (const parent of node.dependsOn ?? []) {
+      if (!byKey.has(parent)) continue;
+      children.set(parent, [...(children.get(parent) ?? []), node.key]);
+    }
+  }
+
+  const ready = nodes.filter((node) => remaining.get(node.key) === 0).map((node) => node.key);
+  const order: T[] = [];
+
+  while (ready.length > 0) {
+    const key = ready.shift()!;
+    order.push(byKey.get(key)!);
+
+    for (const child of children.get(key) ?? []) {
+      const left = remaining.get(child)! - 1;
+      remaining.set(child, left);
+      if (left === 0) ready.push(child);
+    }
+  }
+
+  return order.length === nodes.length ? order : null;
+}
+
+/**
+ * Add the outputs of a job's completed parents to its payload as `parentOutputs`,
+ * keyed by the parent's workflow key (or job id for jobs created with dependsOn)
+ */
+export function withParentOutputs(
+  payload: unknown,
+  parents: { id: string; workflowKey: string | null; output: unknown }[]
+): Record<string, unknown> {
+  const parentOutputs = Object.fromEntries(
+    parents.map((parent) => [parent.workflowKey ?? parent.id, parent.output ?? null])
+  );
+  const base = payload && typeof payload === "object" && !Array.isArray(payload) ? payload : {};
+  return { ...base, parentOutputs };
+}